@@ -1,47 +1,127 @@
 import * as vscode from 'vscode';
+import { IndentationRuleSetting } from './utils/indentRules';
+
+/**
+ * How Backspace in the indent zone changes the indent before joining lines.
+ */
+export type IndentZoneMode = 'computed' | 'oneLevel' | 'alignToPrevious';
 
 export interface SmartKeysConfiguration {
 	smartEnd: {
 		indentEmptyLine: boolean;
 		toggleTrimmedEnd: boolean;
 	};
+	smartHome: {
+		indentEmptyLine: boolean;
+		toggleIndentStart: boolean;
+	};
 	smartBackspace: {
 		handleEmptyLine: boolean;
 		handleIndentZone: boolean;
+		indentZoneMode: IndentZoneMode;
+		deleteEmptyPairs: boolean;
+		collapseEmptyBlocks: boolean;
+	};
+	smartDelete: {
+		handleEmptyLine: boolean;
+		handleLineEnd: boolean;
 	};
 	smartEnter: {
 		autoInsertClosingBrace: boolean;
+		autoInsertClosingBracket: boolean;
+		autoInsertClosingParenthesis: boolean;
+		continueBlockComments: boolean;
+		splitStrings: boolean;
 	};
 	json: {
 		insertCommaOnEnter: boolean;
+		insertCommaBeforeNewProperty: boolean;
 		addWhitespaceAfterColon: boolean;
 		addQuotesToPropertyNames: boolean;
+		removeTrailingComma: boolean;
+		allowTrailingCommas: boolean;
+		insertValueByType: boolean;
+		validatePropertyNames: boolean;
+	};
+	yaml: {
+		addWhitespaceAfterColon: boolean;
+		indentAfterKey: boolean;
+		continueLists: boolean;
+	};
+	markdown: {
+		continueLists: boolean;
+		continueBlockquotes: boolean;
+		renumberLists: boolean;
 	};
+	python: {
+		smartEnter: boolean;
+		dedentOnBackspace: boolean;
+	};
+	indentationRules: Record<string, IndentationRuleSetting>;
 }
 
 function getBoolean(config: vscode.WorkspaceConfiguration, key: string): boolean {
 	return config.get<boolean>(key, true);
 }
 
-export function getSmartKeysConfiguration(): SmartKeysConfiguration {
-	const config = vscode.workspace.getConfiguration('smart-keys');
+/**
+ * Read Smart Keys settings. When a document is given, its resource and
+ * language overrides (e.g. `"[python]": { ... }`) take precedence.
+ */
+export function getSmartKeysConfiguration(document?: vscode.TextDocument): SmartKeysConfiguration {
+	const config = vscode.workspace.getConfiguration('smart-keys', document);
 
 	return {
 		smartEnd: {
 			indentEmptyLine: getBoolean(config, 'smartEnd.indentEmptyLine'),
 			toggleTrimmedEnd: getBoolean(config, 'smartEnd.toggleTrimmedEnd')
 		},
+		smartHome: {
+			indentEmptyLine: getBoolean(config, 'smartHome.indentEmptyLine'),
+			toggleIndentStart: getBoolean(config, 'smartHome.toggleIndentStart')
+		},
 		smartBackspace: {
 			handleEmptyLine: getBoolean(config, 'smartBackspace.handleEmptyLine'),
-			handleIndentZone: getBoolean(config, 'smartBackspace.handleIndentZone')
+			handleIndentZone: getBoolean(config, 'smartBackspace.handleIndentZone'),
+			indentZoneMode: config.get<IndentZoneMode>('smartBackspace.indentZoneMode', 'computed'),
+			deleteEmptyPairs: getBoolean(config, 'smartBackspace.deleteEmptyPairs'),
+			collapseEmptyBlocks: getBoolean(config, 'smartBackspace.collapseEmptyBlocks')
+		},
+		smartDelete: {
+			handleEmptyLine: getBoolean(config, 'smartDelete.handleEmptyLine'),
+			handleLineEnd: getBoolean(config, 'smartDelete.handleLineEnd')
 		},
 		smartEnter: {
-			autoInsertClosingBrace: getBoolean(config, 'smartEnter.autoInsertClosingBrace')
+			autoInsertClosingBrace: getBoolean(config, 'smartEnter.autoInsertClosingBrace'),
+			autoInsertClosingBracket: getBoolean(config, 'smartEnter.autoInsertClosingBracket'),
+			autoInsertClosingParenthesis: getBoolean(config, 'smartEnter.autoInsertClosingParenthesis'),
+			continueBlockComments: getBoolean(config, 'smartEnter.continueBlockComments'),
+			splitStrings: getBoolean(config, 'smartEnter.splitStrings')
 		},
 		json: {
 			insertCommaOnEnter: getBoolean(config, 'json.insertCommaOnEnter'),
+			insertCommaBeforeNewProperty: getBoolean(config, 'json.insertCommaBeforeNewProperty'),
 			addWhitespaceAfterColon: getBoolean(config, 'json.addWhitespaceAfterColon'),
-			addQuotesToPropertyNames: getBoolean(config, 'json.addQuotesToPropertyNames')
-		}
+			addQuotesToPropertyNames: getBoolean(config, 'json.addQuotesToPropertyNames'),
+			removeTrailingComma: getBoolean(config, 'json.removeTrailingComma'),
+			allowTrailingCommas: config.get<boolean>('json.allowTrailingCommas', false),
+			insertValueByType: config.get<boolean>('json.insertValueByType', false),
+			validatePropertyNames: getBoolean(config, 'json.validatePropertyNames')
+		},
+		yaml: {
+			addWhitespaceAfterColon: getBoolean(config, 'yaml.addWhitespaceAfterColon'),
+			indentAfterKey: getBoolean(config, 'yaml.indentAfterKey'),
+			continueLists: getBoolean(config, 'yaml.continueLists')
+		},
+		markdown: {
+			continueLists: getBoolean(config, 'markdown.continueLists'),
+			continueBlockquotes: getBoolean(config, 'markdown.continueBlockquotes'),
+			renumberLists: getBoolean(config, 'markdown.renumberLists')
+		},
+		python: {
+			smartEnter: getBoolean(config, 'python.smartEnter'),
+			dedentOnBackspace: getBoolean(config, 'python.dedentOnBackspace')
+		},
+		indentationRules: config.get<Record<string, IndentationRuleSetting>>('indentationRules', {})
 	};
 }
@@ -1,17 +1,33 @@
 import * as vscode from 'vscode';
 import { SmartEndHandler } from './handlers/smartEndHandler';
+import { SmartHomeHandler } from './handlers/smartHomeHandler';
 import { SmartBackspaceHandler } from './handlers/smartBackspaceHandler';
+import { SmartDeleteHandler } from './handlers/smartDeleteHandler';
 import { SmartEnterHandler } from './handlers/smartEnterHandler';
 import { SmartJsonColonHandler } from './handlers/smartJsonColonHandler';
+import { SmartJsonClosingBracketHandler } from './handlers/smartJsonClosingBracketHandler';
+import { SmartJsonQuoteHandler } from './handlers/smartJsonQuoteHandler';
+import { SmartYamlColonHandler } from './handlers/smartYamlColonHandler';
+import { CompleteStatementHandler } from './handlers/completeStatementHandler';
+import { clearLanguageConfigurationCache, loadLanguageConfigurations } from './utils/languageConfiguration';
+import { clearJsonDocumentScans, deleteJsonDocumentScan, updateJsonDocumentScan } from './utils/jsonHelpers';
+import { clearJsonSchemaCache, clearJsonSchemaReferences, deleteJsonSchemaReference } from './utils/jsonSchemaLoader';
+import { isYamlDocument } from './utils/yamlHelpers';
 
 // Handler instances
 const smartEndHandler = new SmartEndHandler();
+const smartHomeHandler = new SmartHomeHandler();
 const smartBackspaceHandler = new SmartBackspaceHandler();
+const smartDeleteHandler = new SmartDeleteHandler();
 const smartEnterHandler = new SmartEnterHandler();
 const smartColonHandler = new SmartJsonColonHandler();
+const smartClosingBracketHandler = new SmartJsonClosingBracketHandler(smartEnterHandler);
+const smartQuoteHandler = new SmartJsonQuoteHandler(smartEnterHandler);
+const smartYamlColonHandler = new SmartYamlColonHandler();
+const completeStatementHandler = new CompleteStatementHandler(smartEnterHandler);
 
 /**
- * Register handler for cursor movement and reset End state on manual moves.
+ * Register handler for cursor movement and reset End/Home state on manual moves.
  */
 function registerCursorChangeHandler(): vscode.Disposable {
 	return vscode.window.onDidChangeTextEditorSelection(event => {
@@ -20,22 +36,64 @@ function registerCursorChangeHandler(): vscode.Disposable {
 		const documentUri = editor.document.uri.toString();
 		
 		if (smartEndHandler.shouldResetOnCursorMove(
+			documentUri,
+			event.selections.map(({ active }) => active)
+		)) {
+			smartEndHandler.resetState(documentUri);
+		}
+
+		if (smartHomeHandler.shouldResetOnCursorMove(
 			documentUri,
 			selection.active.line,
 			selection.active.character
 		)) {
-			smartEndHandler.resetState(documentUri);
+			smartHomeHandler.resetState(documentUri);
 		}
 	});
 }
 
 /**
- * Register handler for document changes and reset End state on edits.
+ * Register handler for document changes: reset End/Home state and update bracket index and JSON scans.
  */
 function registerDocumentChangeHandler(): vscode.Disposable {
 	return vscode.workspace.onDidChangeTextDocument(event => {
 		const documentUri = event.document.uri.toString();
 		smartEndHandler.resetState(documentUri);
+		smartHomeHandler.resetState(documentUri);
+		smartEnterHandler.handleDocumentChange(event);
+		updateJsonDocumentScan(event);
+	});
+}
+
+/**
+ * Register handler for closed documents and drop their stored state.
+ */
+function registerDocumentCloseHandler(): vscode.Disposable {
+	return vscode.workspace.onDidCloseTextDocument(document => {
+		const documentUri = document.uri.toString();
+		smartEndHandler.resetState(documentUri);
+		smartHomeHandler.resetState(documentUri);
+		smartEnterHandler.handleDocumentClose(documentUri);
+		deleteJsonDocumentScan(documentUri);
+		deleteJsonSchemaReference(documentUri);
+	});
+}
+
+/**
+ * Register handler for saved documents: reload JSON schemas that may have changed.
+ */
+function registerDocumentSaveHandler(): vscode.Disposable {
+	return vscode.workspace.onDidSaveTextDocument(() => {
+		clearJsonSchemaCache();
+	});
+}
+
+/**
+ * Register handler for installed extensions changes: reload language configurations.
+ */
+function registerExtensionsChangeHandler(): vscode.Disposable {
+	return vscode.extensions.onDidChange(() => {
+		void loadLanguageConfigurations();
 	});
 }
 
@@ -53,6 +111,34 @@ function registerSmartEndCommand(): vscode.Disposable {
 	});
 }
 
+/**
+ * Register Smart End Select command.
+ */
+function registerSmartEndSelectCommand(): vscode.Disposable {
+	return vscode.commands.registerCommand('smart-keys.smartEndSelect', async () => {
+		const editor = vscode.window.activeTextEditor;
+		if (!editor) {
+			return;
+		}
+
+		await smartEndHandler.executeSelect(editor);
+	});
+}
+
+/**
+ * Register Smart Home command.
+ */
+function registerSmartHomeCommand(): vscode.Disposable {
+	return vscode.commands.registerCommand('smart-keys.smartHome', async () => {
+		const editor = vscode.window.activeTextEditor;
+		if (!editor) {
+			return;
+		}
+
+		await smartHomeHandler.execute(editor);
+	});
+}
+
 /**
  * Register Smart Backspace command.
  */
@@ -67,6 +153,20 @@ function registerSmartBackspaceCommand(): vscode.Disposable {
 	});
 }
 
+/**
+ * Register Smart Delete command.
+ */
+function registerSmartDeleteCommand(): vscode.Disposable {
+	return vscode.commands.registerCommand('smart-keys.smartDelete', async () => {
+		const editor = vscode.window.activeTextEditor;
+		if (!editor) {
+			return;
+		}
+
+		await smartDeleteHandler.execute(editor);
+	});
+}
+
 /**
  * Register Smart Enter command.
  */
@@ -82,7 +182,22 @@ function registerSmartEnterCommand(): vscode.Disposable {
 }
 
 /**
- * Register type command interceptor for colon in JSON files
+ * Register Complete Statement command.
+ */
+function registerCompleteStatementCommand(): vscode.Disposable {
+	return vscode.commands.registerCommand('smart-keys.completeStatement', async () => {
+		const editor = vscode.window.activeTextEditor;
+		if (!editor) {
+			return;
+		}
+
+		await completeStatementHandler.execute(editor);
+	});
+}
+
+/**
+ * Register type command interceptor for colon, quote and closing brackets in JSON files
+ * and colon in YAML files
  */
 function registerTypeCommandInterceptor(): vscode.Disposable {
 	return vscode.commands.registerCommand('type', async (args: { text: string }) => {
@@ -100,6 +215,24 @@ function registerTypeCommandInterceptor(): vscode.Disposable {
 			return;
 		}
 
+		// Intercept colon in YAML files
+		if (args.text === ':' && isYamlDocument(document)) {
+			await smartYamlColonHandler.execute(editor);
+			return;
+		}
+
+		// Intercept quote in JSON files
+		if (args.text === '"' && isJson) {
+			await smartQuoteHandler.execute(editor);
+			return;
+		}
+
+		// Intercept closing brackets in JSON files
+		if ((args.text === '}' || args.text === ']') && isJson) {
+			await smartClosingBracketHandler.execute(editor, args.text);
+			return;
+		}
+
 		// Default behavior for everything else
 		return vscode.commands.executeCommand('default:type', args);
 	});
@@ -115,13 +248,23 @@ export function activate(context: vscode.ExtensionContext): void {
 	const disposables = [
 		registerCursorChangeHandler(),
 		registerDocumentChangeHandler(),
+		registerDocumentCloseHandler(),
+		registerDocumentSaveHandler(),
+		registerExtensionsChangeHandler(),
 		registerSmartEndCommand(),
+		registerSmartEndSelectCommand(),
+		registerSmartHomeCommand(),
 		registerSmartBackspaceCommand(),
+		registerSmartDeleteCommand(),
 		registerSmartEnterCommand(),
+		registerCompleteStatementCommand(),
 		registerTypeCommandInterceptor()
 	];
 
 	context.subscriptions.push(...disposables);
+
+	// Indentation rules of installed languages; built-in rules apply until they are loaded
+	void loadLanguageConfigurations();
 }
 
 /**
@@ -129,4 +272,9 @@ export function activate(context: vscode.ExtensionContext): void {
  */
 export function deactivate(): void {
 	smartEndHandler.clear();
+	smartHomeHandler.clear();
+	smartEnterHandler.clear();
+	clearJsonDocumentScans();
+	clearJsonSchemaReferences();
+	clearLanguageConfigurationCache();
 }
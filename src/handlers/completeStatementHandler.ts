@@ -0,0 +1,150 @@
+import * as vscode from 'vscode';
+import { getIndentFromLine, getIndentUnit } from '../utils/indentHelpers';
+import { setCursorPosition } from '../utils/cursorHelpers';
+import { applyEditPlan } from '../utils/editPlans';
+import { BRACKET_PAIRS } from '../utils/braceHelpers';
+import { getStatementRules, StatementRules } from '../utils/statementRules';
+import { SmartEnterHandler } from './smartEnterHandler';
+
+export class CompleteStatementHandler {
+	private smartEnterHandler: SmartEnterHandler;
+
+	constructor(smartEnterHandler: SmartEnterHandler = new SmartEnterHandler()) {
+		this.smartEnterHandler = smartEnterHandler;
+	}
+
+	/**
+	 * Build closers for brackets left open by the statement, innermost first.
+	 * Brackets before the last unmatched `{` belong to an enclosing block and stay open.
+	 */
+	private buildClosers(unmatched: Array<{ char: number; openChar: string }>): string {
+		let statementStart = 0;
+		unmatched.forEach((bracket, index) => {
+			if (bracket.openChar === '{') {
+				statementStart = index + 1;
+			}
+		});
+
+		return unmatched
+			.slice(statementStart)
+			.map(bracket => BRACKET_PAIRS[bracket.openChar])
+			.reverse()
+			.join('');
+	}
+
+	/**
+	 * Check whether the completed statement is a block header such as `if (...)` or `class Foo`.
+	 */
+	private isBlockHeader(statement: string, rules: StatementRules): boolean {
+		// Forward declarations such as `mod foo;` or `class Foo;`
+		if (statement.endsWith(';')) {
+			return false;
+		}
+
+		if (rules.blockOpener === ':' && statement.endsWith(':')) {
+			return true;
+		}
+
+		return rules.declarationBlock.test(statement) ||
+			(rules.conditionalBlock.test(statement) && statement.endsWith(')'));
+	}
+
+	/**
+	 * Check whether the completed statement is missing its terminator.
+	 */
+	private needsTerminator(statement: string, rules: StatementRules): boolean {
+		if (rules.terminator.length === 0 || statement === '}') {
+			return false;
+		}
+
+		// Preprocessor directives, decorators and already finished or continued lines
+		return !/^[#@]/.test(statement) && !/[;,{:]$/.test(statement);
+	}
+
+	/**
+	 * Expand the opening brace right before `braceEnd` using Smart Enter.
+	 */
+	private async expandBrace(editor: vscode.TextEditor, line: number, braceEnd: number): Promise<void> {
+		setCursorPosition(editor, line, braceEnd);
+		await this.smartEnterHandler.execute(editor);
+	}
+
+	/**
+	 * Complete the statement ending with an opening brace: `foo(() => {` becomes `foo(() => {});`
+	 * and the block is expanded.
+	 */
+	private async completeTrailingBrace(
+		editor: vscode.TextEditor,
+		line: number,
+		codeEnd: number,
+		unmatched: Array<{ char: number; openChar: string }>,
+		rules: StatementRules
+	): Promise<void> {
+		const lastUnmatched = unmatched[unmatched.length - 1];
+		const isBraceUnmatched = lastUnmatched?.openChar === '{' && lastUnmatched.char === codeEnd - 1;
+		const closers = isBraceUnmatched ? this.buildClosers(unmatched.slice(0, -1)) : '';
+
+		if (closers.length > 0) {
+			const position = new vscode.Position(line, codeEnd);
+			await editor.edit(editBuilder => {
+				editBuilder.insert(position, `}${closers}${rules.terminator}`);
+			});
+		}
+
+		await this.expandBrace(editor, line, codeEnd);
+	}
+
+	/**
+	 * Complete the statement on the cursor line and move to the next logical line.
+	 */
+	public async execute(editor: vscode.TextEditor): Promise<void> {
+		const document = editor.document;
+		const line = editor.selection.active.line;
+		const lineText = document.lineAt(line).text;
+		const rules = getStatementRules(document.languageId);
+		const bracketIndex = this.smartEnterHandler.getBracketIndex(document);
+
+		const codeEnd = bracketIndex.findCodeEnd(lineText, line);
+		const unmatched = bracketIndex.findUnmatchedBracketsOnLine(lineText, line);
+
+		if (codeEnd > 0 && lineText.charAt(codeEnd - 1) === '{') {
+			await this.completeTrailingBrace(editor, line, codeEnd, unmatched, rules);
+			return;
+		}
+
+		const baseIndent = getIndentFromLine(lineText);
+		const closers = this.buildClosers(unmatched);
+		const statement = lineText.slice(0, codeEnd).trim() + closers;
+		// Keep trailing comments after the completed code
+		const rest = lineText.slice(codeEnd).trimEnd();
+		const lineEnd = new vscode.Position(line, lineText.length);
+		const completionRange = new vscode.Range(new vscode.Position(line, codeEnd), lineEnd);
+
+		if (codeEnd > 0 && this.isBlockHeader(statement, rules)) {
+			if (rules.blockOpener === '{') {
+				// `if (a` -> `if (a) {` with the block expanded
+				const opener = ' {';
+				await editor.edit(editBuilder => {
+					editBuilder.replace(completionRange, `${closers}${opener}${rest}`);
+				});
+				await this.expandBrace(editor, line, codeEnd + closers.length + opener.length);
+				return;
+			}
+
+			// `if a` -> `if a:` and continue on an indented line
+			const opener = statement.endsWith(':') ? '' : ':';
+			const innerIndent = baseIndent + getIndentUnit(editor);
+			await applyEditPlan(editor, {
+				edits: [{ range: completionRange, text: `${closers}${opener}${rest}\n${innerIndent}` }],
+				cursor: lineEnd
+			});
+			return;
+		}
+
+		const terminator = codeEnd > 0 && this.needsTerminator(statement, rules) ? rules.terminator : '';
+		await applyEditPlan(editor, {
+			edits: [{ range: completionRange, text: `${closers}${terminator}${rest}\n${baseIndent}` }],
+			cursor: lineEnd
+		});
+	}
+}
@@ -1,230 +1,465 @@
 import * as vscode from 'vscode';
-import { calculateIndent } from '../utils/indentHelpers';
-import { setCursorPosition, isInIndentZone, getFirstNonWhitespaceIndex } from '../utils/cursorHelpers';
-import { getSmartKeysConfiguration } from '../configuration';
+import {
+	calculateIndent,
+	decreaseIndent,
+	decreaseIndentToTabStop,
+	findPreviousNonEmptyLine,
+	getIndentFromLine
+} from '../utils/indentHelpers';
+import { isInIndentZone, getFirstNonWhitespaceIndex } from '../utils/cursorHelpers';
+import { applyEditPlan, applyEditPlans, EditPlan } from '../utils/editPlans';
+import { isPythonDocument } from '../utils/pythonHelpers';
+import { BRACKET_PAIRS, isOpeningBracket } from '../utils/braceHelpers';
+import { createScannerState, getLanguageSyntax, getStateAt, LanguageSyntax } from '../utils/syntaxScanner';
+import { getSmartKeysConfiguration, IndentZoneMode, SmartKeysConfiguration } from '../configuration';
+
+const QUOTES = ['"', '\''];
+
+/**
+ * Check whether a character of a line is code (not inside a string or comment).
+ * The line is scanned on its own, so comments spanning lines are not recognized.
+ */
+function isCodeAt(lineText: string, charIndex: number, syntax: LanguageSyntax): boolean {
+	return getStateAt(lineText, createScannerState(), syntax, charIndex).mode === 'code';
+}
 
 export class SmartBackspaceHandler {
 	/**
 	 * Handle Backspace on an empty line when the previous line is also empty.
 	 */
-	private async handleEmptyLineWithEmptyPrevious(
+	private handleEmptyLineWithEmptyPrevious(
 		editor: vscode.TextEditor,
 		document: vscode.TextDocument,
 		currentLine: number,
 		lineText: string
-	): Promise<boolean> {
+	): EditPlan {
 		const targetIndent = calculateIndent(editor, document, currentLine);
-		
+		const lineEnd = new vscode.Position(currentLine, lineText.length);
+
 		// Remove previous empty line and apply target indent
-		await editor.edit(editBuilder => {
-			const deleteRange = new vscode.Range(
-				new vscode.Position(currentLine - 1, 0),
-				new vscode.Position(currentLine, 0)
-			);
-			editBuilder.delete(deleteRange);
-			
-			const replaceRange = new vscode.Range(
-				new vscode.Position(currentLine, 0),
-				new vscode.Position(currentLine, lineText.length)
-			);
-			editBuilder.replace(replaceRange, targetIndent);
-		});
-		
-		setCursorPosition(editor, currentLine - 1, targetIndent.length);
-		return true;
+		return {
+			edits: [
+				{
+					range: new vscode.Range(
+						new vscode.Position(currentLine - 1, 0),
+						new vscode.Position(currentLine, 0)
+					),
+					text: ''
+				},
+				{
+					range: new vscode.Range(new vscode.Position(currentLine, 0), lineEnd),
+					text: targetIndent
+				}
+			],
+			cursor: lineEnd
+		};
 	}
 
 	/**
 	 * Handle Backspace on an empty line when the previous line has text.
 	 */
-	private async handleEmptyLineWithTextPrevious(
-		editor: vscode.TextEditor,
+	private handleEmptyLineWithTextPrevious(
 		currentLine: number,
+		lineText: string,
 		prevText: string
-	): Promise<boolean> {
+	): EditPlan {
 		const prevTextTrimmed = prevText.trimEnd();
-		const cursorPosition = prevTextTrimmed.length;
-		
-		await editor.edit(editBuilder => {
-			// Remove current empty line
-			const deleteRange = new vscode.Range(
-				new vscode.Position(currentLine, 0),
-				new vscode.Position(currentLine + 1, 0)
-			);
-			editBuilder.delete(deleteRange);
-			
-			// Trim trailing spaces in previous line
-			if (prevText.length > prevTextTrimmed.length) {
-				const trimRange = new vscode.Range(
-					new vscode.Position(currentLine - 1, prevTextTrimmed.length),
-					new vscode.Position(currentLine - 1, prevText.length)
-				);
-				editBuilder.delete(trimRange);
-			}
-		});
-		
-		setCursorPosition(editor, currentLine - 1, cursorPosition);
-		return true;
+		const prevTrimmedEnd = new vscode.Position(currentLine - 1, prevTextTrimmed.length);
+
+		// Remove current empty line together with trailing spaces of previous line
+		return {
+			edits: [{
+				range: new vscode.Range(prevTrimmedEnd, new vscode.Position(currentLine, lineText.length)),
+				text: ''
+			}],
+			cursor: prevTrimmedEnd
+		};
 	}
 
 	/**
 	 * Handle Backspace on an empty line.
 	 */
-	private async handleEmptyLine(
+	private handleEmptyLine(
 		editor: vscode.TextEditor,
 		document: vscode.TextDocument,
 		currentLine: number,
 		lineText: string
-	): Promise<boolean> {
+	): EditPlan | null {
 		if (currentLine === 0) {
-			return false;
+			return null;
 		}
 
 		const prevLine = document.lineAt(currentLine - 1);
 		const prevText = prevLine.text;
-		
+
 		if (prevText.trim().length === 0) {
 			// Previous line is empty
-			return await this.handleEmptyLineWithEmptyPrevious(editor, document, currentLine, lineText);
+			return this.handleEmptyLineWithEmptyPrevious(editor, document, currentLine, lineText);
 		} else {
 			// Previous line contains text
-			return await this.handleEmptyLineWithTextPrevious(editor, currentLine, prevText);
+			return this.handleEmptyLineWithTextPrevious(currentLine, lineText, prevText);
 		}
 	}
 
 	/**
 	 * Handle Backspace in indent zone when the previous line is empty.
 	 */
-	private async handleIndentZoneWithEmptyPrevious(
-		editor: vscode.TextEditor,
+	private handleIndentZoneWithEmptyPrevious(
 		currentLine: number,
 		firstNonWhitespaceIndex: number
-	): Promise<boolean> {
-		await editor.edit(editBuilder => {
-			const deleteRange = new vscode.Range(
-				new vscode.Position(currentLine - 1, 0),
-				new vscode.Position(currentLine, 0)
-			);
-			editBuilder.delete(deleteRange);
-		});
-
-		setCursorPosition(editor, currentLine - 1, firstNonWhitespaceIndex);
-		return true;
+	): EditPlan {
+		return {
+			edits: [{
+				range: new vscode.Range(
+					new vscode.Position(currentLine - 1, 0),
+					new vscode.Position(currentLine, 0)
+				),
+				text: ''
+			}],
+			cursor: new vscode.Position(currentLine, firstNonWhitespaceIndex)
+		};
 	}
 
 	/**
 	 * Handle Backspace in indent zone when the previous line has text.
 	 */
-	private async handleIndentZoneWithTextPrevious(
-		editor: vscode.TextEditor,
+	private handleIndentZoneWithTextPrevious(
 		currentLine: number,
 		lineText: string,
 		prevText: string
-	): Promise<boolean> {
+	): EditPlan {
 		const prevTextTrimmed = prevText.trimEnd();
-		const currentTextTrimmed = lineText.trim();
-		const joinedText = prevTextTrimmed + currentTextTrimmed;
-		const cursorPosition = prevTextTrimmed.length;
-		
-		await editor.edit(editBuilder => {
-			const deleteRange = new vscode.Range(
-				new vscode.Position(currentLine - 1, 0),
-				new vscode.Position(currentLine, lineText.length)
-			);
-			editBuilder.delete(deleteRange);
-			editBuilder.insert(new vscode.Position(currentLine - 1, 0), joinedText);
-		});
-
-		setCursorPosition(editor, currentLine - 1, cursorPosition);
-		return true;
+		const currentTextTrimmedEnd = lineText.trimEnd();
+		const prevTrimmedEnd = new vscode.Position(currentLine - 1, prevTextTrimmed.length);
+		const edits: EditPlan['edits'] = [{
+			range: new vscode.Range(
+				prevTrimmedEnd,
+				new vscode.Position(currentLine, getFirstNonWhitespaceIndex(lineText))
+			),
+			text: ''
+		}];
+
+		// Trim trailing spaces of the joined line
+		if (lineText.length > currentTextTrimmedEnd.length) {
+			edits.push({
+				range: new vscode.Range(
+					new vscode.Position(currentLine, currentTextTrimmedEnd.length),
+					new vscode.Position(currentLine, lineText.length)
+				),
+				text: ''
+			});
+		}
+
+		return { edits, cursor: prevTrimmedEnd };
+	}
+
+	/**
+	 * Replace the indent of a line, placing the cursor at its end.
+	 */
+	private replaceIndent(currentLine: number, currentIndent: string, targetIndent: string): EditPlan {
+		const indentEnd = new vscode.Position(currentLine, currentIndent.length);
+		return {
+			edits: [{
+				range: new vscode.Range(new vscode.Position(currentLine, 0), indentEnd),
+				text: targetIndent
+			}],
+			cursor: indentEnd
+		};
+	}
+
+	/**
+	 * Find the indent of the nearest previous line indented less than the current indent.
+	 */
+	private findPreviousShorterIndent(
+		document: vscode.TextDocument,
+		currentLine: number,
+		currentIndent: string
+	): string {
+		let prevLineInfo = findPreviousNonEmptyLine(document, currentLine);
+
+		while (prevLineInfo) {
+			const indent = getIndentFromLine(prevLineInfo.text);
+			if (indent.length < currentIndent.length) {
+				return indent;
+			}
+			prevLineInfo = findPreviousNonEmptyLine(document, prevLineInfo.lineNumber);
+		}
+
+		return '';
 	}
 
 	/**
 	 * Handle Backspace inside the indent zone.
 	 */
-	private async handleIndentZone(
+	private handleIndentZone(
 		editor: vscode.TextEditor,
 		document: vscode.TextDocument,
 		currentLine: number,
-		lineText: string
-	): Promise<boolean> {
+		lineText: string,
+		mode: IndentZoneMode
+	): EditPlan | null {
+		const firstNonWhitespaceIndex = getFirstNonWhitespaceIndex(lineText);
+		const currentIndent = lineText.substring(0, firstNonWhitespaceIndex);
+
+		// Dedent modes keep intentionally deeper indents and join lines only at column 0
+		if (mode !== 'computed' && currentIndent.length > 0) {
+			const targetIndent = mode === 'oneLevel'
+				? decreaseIndentToTabStop(currentIndent, editor)
+				: this.findPreviousShorterIndent(document, currentLine, currentIndent);
+			return this.replaceIndent(currentLine, currentIndent, targetIndent);
+		}
+
 		if (currentLine === 0) {
-			return false;
+			return null;
 		}
 
-		const firstNonWhitespaceIndex = getFirstNonWhitespaceIndex(lineText);
-		const currentIndent = lineText.substring(0, firstNonWhitespaceIndex);
-		
 		// Calculate correct indent for the line
 		const correctIndent = calculateIndent(editor, document, currentLine);
-		
+
 		// If current indent is too large, fix it
 		if (currentIndent.length > correctIndent.length) {
-			await editor.edit(editBuilder => {
-				const indentRange = new vscode.Range(
-					new vscode.Position(currentLine, 0),
-					new vscode.Position(currentLine, currentIndent.length)
-				);
-				editBuilder.replace(indentRange, correctIndent);
-			});
-			
-			setCursorPosition(editor, currentLine, correctIndent.length);
-			return true;
+			return this.replaceIndent(currentLine, currentIndent, correctIndent);
 		}
-		
+
 		// If indent is correct, run deletion/merge logic
 		const prevLine = document.lineAt(currentLine - 1);
 		const prevText = prevLine.text;
-		
+
 		if (prevText.trim().length === 0) {
 			// Previous line is empty
-			return await this.handleIndentZoneWithEmptyPrevious(editor, currentLine, firstNonWhitespaceIndex);
+			return this.handleIndentZoneWithEmptyPrevious(currentLine, firstNonWhitespaceIndex);
 		} else {
 			// Previous line contains text
-			return await this.handleIndentZoneWithTextPrevious(editor, currentLine, lineText, prevText);
+			return this.handleIndentZoneWithTextPrevious(currentLine, lineText, prevText);
 		}
 	}
 
 	/**
-	 * Main handler for Smart Backspace.
-	 * 
-	 * Multi-cursor limitation: Falls back to default behavior when multiple cursors
-	 * are present, as smart operations (line deletion/joining) would affect positions
-	 * of other cursors unpredictably.
+	 * Handle Backspace between the characters of an empty pair: `{⌘}`, `(⌘)`, `[⌘]`, `"⌘"` or `'⌘'`.
 	 */
-	public async execute(editor: vscode.TextEditor): Promise<void> {
-		const { smartBackspace } = getSmartKeysConfiguration();
-		const document = editor.document;
-		const selections = editor.selections;
-		
-		// Use default behavior for multi-cursor or non-empty selections
-		if (selections.length > 1 || !selections[0].isEmpty) {
-			await vscode.commands.executeCommand('deleteLeft');
-			return;
+	private handleEmptyPair(
+		document: vscode.TextDocument,
+		currentLine: number,
+		currentChar: number,
+		lineText: string
+	): EditPlan | null {
+		const syntax = getLanguageSyntax(document.languageId);
+		if (currentChar === 0 || !isCodeAt(lineText, currentChar - 1, syntax)) {
+			return null;
+		}
+
+		const openChar = lineText.charAt(currentChar - 1);
+		const closeChar = lineText.charAt(currentChar);
+
+		// A quote pair is empty only when the first quote opens a string the second one closes
+		const isPair = QUOTES.includes(openChar)
+			? closeChar === openChar &&
+				getStateAt(lineText, createScannerState(), syntax, currentChar).closing === openChar
+			: isOpeningBracket(openChar) && BRACKET_PAIRS[openChar] === closeChar;
+
+		if (!isPair) {
+			return null;
+		}
+
+		const start = new vscode.Position(currentLine, currentChar - 1);
+		return {
+			edits: [{
+				range: new vscode.Range(start, new vscode.Position(currentLine, currentChar + 1)),
+				text: ''
+			}],
+			cursor: start
+		};
+	}
+
+	/**
+	 * Handle Backspace on the blank line of an expanded empty block, collapsing
+	 * `{`, the blank line and `}` back to `{}` on the line of the opening bracket.
+	 */
+	private handleEmptyBlock(
+		document: vscode.TextDocument,
+		currentLine: number,
+		lineText: string
+	): EditPlan | null {
+		if (currentLine === 0 || currentLine >= document.lineCount - 1 || lineText.trim().length > 0) {
+			return null;
 		}
 
-		const selection = selections[0];
+		const prevText = document.lineAt(currentLine - 1).text;
+		const nextText = document.lineAt(currentLine + 1).text;
+		const openIndex = prevText.trimEnd().length - 1;
+		const closeIndex = getFirstNonWhitespaceIndex(nextText);
+		const openChar = prevText.charAt(openIndex);
 
-		const currentLine = selection.active.line;
-		const currentChar = selection.active.character;
+		if (
+			!isOpeningBracket(openChar) ||
+			nextText.charAt(closeIndex) !== BRACKET_PAIRS[openChar] ||
+			!isCodeAt(prevText, openIndex, getLanguageSyntax(document.languageId))
+		) {
+			return null;
+		}
+
+		const afterOpen = new vscode.Position(currentLine - 1, openIndex + 1);
+		return {
+			edits: [{
+				range: new vscode.Range(afterOpen, new vscode.Position(currentLine + 1, closeIndex)),
+				text: ''
+			}],
+			cursor: afterOpen
+		};
+	}
+
+	/**
+	 * Handle Backspace in the indentation of a Python line: indentation is significant,
+	 * so only one indent level is removed and lines are never joined.
+	 */
+	private handlePythonIndent(
+		editor: vscode.TextEditor,
+		currentLine: number,
+		currentChar: number,
+		lineText: string
+	): EditPlan | null {
+		const indent = lineText.slice(0, currentChar);
+		if (indent.length === 0 || indent.trim().length > 0) {
+			return null;
+		}
+
+		const targetIndent = decreaseIndent(indent, editor);
+		return {
+			edits: [{
+				range: new vscode.Range(
+					new vscode.Position(currentLine, 0),
+					new vscode.Position(currentLine, currentChar)
+				),
+				text: targetIndent
+			}],
+			cursor: new vscode.Position(currentLine, currentChar)
+		};
+	}
+
+	/**
+	 * Build the smart Backspace plan for a cursor, or null if default behavior applies.
+	 */
+	private planForCursor(
+		editor: vscode.TextEditor,
+		position: vscode.Position,
+		config: SmartKeysConfiguration
+	): EditPlan | null {
+		const { smartBackspace, python } = config;
+		const document = editor.document;
+		const currentLine = position.line;
+		const currentChar = position.character;
 		const lineText = document.lineAt(currentLine).text;
 
+		if (smartBackspace.deleteEmptyPairs) {
+			const plan = this.handleEmptyPair(document, currentLine, currentChar, lineText);
+			if (plan) {
+				return plan;
+			}
+		}
+
+		if (smartBackspace.collapseEmptyBlocks) {
+			const plan = this.handleEmptyBlock(document, currentLine, lineText);
+			if (plan) {
+				return plan;
+			}
+		}
+
+		if (isPythonDocument(document) && python.dedentOnBackspace) {
+			return this.handlePythonIndent(editor, currentLine, currentChar, lineText);
+		}
+
 		// Check whether current line is empty
 		if (lineText.trim().length === 0 && smartBackspace.handleEmptyLine) {
-			const handled = await this.handleEmptyLine(editor, document, currentLine, lineText);
-			if (handled) {
-				return;
+			const plan = this.handleEmptyLine(editor, document, currentLine, lineText);
+			if (plan) {
+				return plan;
 			}
 		}
 
 		// Check whether cursor is in indent zone
 		if (isInIndentZone(lineText, currentChar) && smartBackspace.handleIndentZone) {
-			const handled = await this.handleIndentZone(editor, document, currentLine, lineText);
-			if (handled) {
-				return;
+			const plan = this.handleIndentZone(editor, document, currentLine, lineText, smartBackspace.indentZoneMode);
+			if (plan) {
+				return plan;
 			}
 		}
 
+		return null;
+	}
+
+	/**
+	 * Plan equivalent to the default Backspace for a cursor without smart behavior.
+	 */
+	private planDefaultDeleteLeft(document: vscode.TextDocument, position: vscode.Position): EditPlan {
+		if (position.character > 0) {
+			const lineText = document.lineAt(position.line).text;
+			const isSurrogatePair = position.character > 1 &&
+				/[\uDC00-\uDFFF]/.test(lineText.charAt(position.character - 1)) &&
+				/[\uD800-\uDBFF]/.test(lineText.charAt(position.character - 2));
+			const start = position.translate(0, isSurrogatePair ? -2 : -1);
+			return { edits: [{ range: new vscode.Range(start, position), text: '' }], cursor: start };
+		}
+
+		if (position.line > 0) {
+			const start = document.lineAt(position.line - 1).range.end;
+			return { edits: [{ range: new vscode.Range(start, position), text: '' }], cursor: start };
+		}
+
+		return { edits: [], cursor: position };
+	}
+
+	/**
+	 * Execute for multiple cursors - process each cursor and apply all edits at once.
+	 */
+	private async executeMultiCursor(
+		editor: vscode.TextEditor,
+		config: SmartKeysConfiguration
+	): Promise<void> {
+		const document = editor.document;
+		const plans = editor.selections.map(selection =>
+			this.planForCursor(editor, selection.active, config)
+		);
+
+		// No cursor needs smart behavior - keep native Backspace (auto-closing pairs, tab stops)
+		if (plans.every(plan => plan === null)) {
+			await vscode.commands.executeCommand('deleteLeft');
+			return;
+		}
+
+		const resolvedPlans = plans.map((plan, index) =>
+			plan ?? this.planDefaultDeleteLeft(document, editor.selections[index].active)
+		);
+
+		// Edits of neighbouring cursors may touch the same lines - fall back to default then
+		if (!await applyEditPlans(editor, resolvedPlans)) {
+			await vscode.commands.executeCommand('deleteLeft');
+		}
+	}
+
+	/**
+	 * Main handler for Smart Backspace - supports multiple cursors.
+	 */
+	public async execute(editor: vscode.TextEditor): Promise<void> {
+		const config = getSmartKeysConfiguration(editor.document);
+		const selections = editor.selections;
+
+		// Use default behavior for non-empty selections
+		if (selections.some(selection => !selection.isEmpty)) {
+			await vscode.commands.executeCommand('deleteLeft');
+			return;
+		}
+
+		if (selections.length > 1) {
+			await this.executeMultiCursor(editor, config);
+			return;
+		}
+
+		const plan = this.planForCursor(editor, selections[0].active, config);
+		if (plan) {
+			await applyEditPlan(editor, plan);
+			return;
+		}
+
 		// Default Backspace behavior
 		await vscode.commands.executeCommand('deleteLeft');
 	}
@@ -0,0 +1,207 @@
+import * as vscode from 'vscode';
+import { getFirstNonWhitespaceIndex } from '../utils/cursorHelpers';
+import { applyEditPlan, applyEditPlans, EditPlan } from '../utils/editPlans';
+import { getSmartKeysConfiguration, SmartKeysConfiguration } from '../configuration';
+
+export class SmartDeleteHandler {
+	/**
+	 * Count blank lines directly below the given line.
+	 */
+	private countFollowingBlankLines(document: vscode.TextDocument, currentLine: number): number {
+		let count = 0;
+		while (
+			currentLine + count + 1 < document.lineCount &&
+			document.lineAt(currentLine + count + 1).text.trim().length === 0
+		) {
+			count++;
+		}
+		return count;
+	}
+
+	/**
+	 * Handle Delete on an empty line.
+	 */
+	private handleEmptyLine(
+		document: vscode.TextDocument,
+		position: vscode.Position,
+		lineText: string
+	): EditPlan | null {
+		const currentLine = position.line;
+		if (currentLine >= document.lineCount - 1) {
+			return null;
+		}
+
+		const blankLines = this.countFollowingBlankLines(document, currentLine);
+
+		if (blankLines > 0) {
+			// Remove following blank lines, keep current line as is
+			const lastBlankLine = currentLine + blankLines;
+			return {
+				edits: [{
+					range: new vscode.Range(
+						new vscode.Position(currentLine, lineText.length),
+						document.lineAt(lastBlankLine).range.end
+					),
+					text: ''
+				}],
+				cursor: position
+			};
+		}
+
+		// Next line contains text - remove current empty line and keep next line indent
+		const nextText = document.lineAt(currentLine + 1).text;
+		return {
+			edits: [{
+				range: new vscode.Range(
+					new vscode.Position(currentLine, 0),
+					new vscode.Position(currentLine + 1, 0)
+				),
+				text: ''
+			}],
+			cursor: new vscode.Position(currentLine + 1, getFirstNonWhitespaceIndex(nextText))
+		};
+	}
+
+	/**
+	 * Handle Delete at the end of a line: join next line without its indentation.
+	 */
+	private handleLineEnd(
+		document: vscode.TextDocument,
+		currentLine: number,
+		lineText: string
+	): EditPlan | null {
+		if (currentLine >= document.lineCount - 1) {
+			return null;
+		}
+
+		const trimmedEnd = new vscode.Position(currentLine, lineText.trimEnd().length);
+		const nextText = document.lineAt(currentLine + 1).text;
+
+		if (nextText.trim().length === 0) {
+			// Next line is blank - remove it together with trailing spaces
+			return {
+				edits: [{
+					range: new vscode.Range(trimmedEnd, new vscode.Position(currentLine + 1, nextText.length)),
+					text: ''
+				}],
+				cursor: trimmedEnd
+			};
+		}
+
+		// Collapse trailing spaces, line break and next line indent into a single space
+		return {
+			edits: [{
+				range: new vscode.Range(
+					trimmedEnd,
+					new vscode.Position(currentLine + 1, getFirstNonWhitespaceIndex(nextText))
+				),
+				text: ' '
+			}],
+			cursor: trimmedEnd
+		};
+	}
+
+	/**
+	 * Build the smart Delete plan for a cursor, or null if default behavior applies.
+	 */
+	private planForCursor(
+		document: vscode.TextDocument,
+		position: vscode.Position,
+		smartDelete: SmartKeysConfiguration['smartDelete']
+	): EditPlan | null {
+		const currentLine = position.line;
+		const lineText = document.lineAt(currentLine).text;
+
+		// Check whether current line is empty
+		if (lineText.trim().length === 0) {
+			return smartDelete.handleEmptyLine
+				? this.handleEmptyLine(document, position, lineText)
+				: null;
+		}
+
+		// Check whether cursor is at the (trimmed) end of line
+		if (position.character >= lineText.trimEnd().length && smartDelete.handleLineEnd) {
+			return this.handleLineEnd(document, currentLine, lineText);
+		}
+
+		return null;
+	}
+
+	/**
+	 * Plan equivalent to the default Delete for a cursor without smart behavior.
+	 */
+	private planDefaultDeleteRight(document: vscode.TextDocument, position: vscode.Position): EditPlan {
+		const line = document.lineAt(position.line);
+
+		if (position.character < line.text.length) {
+			const isSurrogatePair =
+				/[\uD800-\uDBFF]/.test(line.text.charAt(position.character)) &&
+				/[\uDC00-\uDFFF]/.test(line.text.charAt(position.character + 1));
+			const end = position.translate(0, isSurrogatePair ? 2 : 1);
+			return { edits: [{ range: new vscode.Range(position, end), text: '' }], cursor: position };
+		}
+
+		if (position.line < document.lineCount - 1) {
+			const end = new vscode.Position(position.line + 1, 0);
+			return { edits: [{ range: new vscode.Range(position, end), text: '' }], cursor: position };
+		}
+
+		return { edits: [], cursor: position };
+	}
+
+	/**
+	 * Execute for multiple cursors - process each cursor and apply all edits at once.
+	 */
+	private async executeMultiCursor(
+		editor: vscode.TextEditor,
+		smartDelete: SmartKeysConfiguration['smartDelete']
+	): Promise<void> {
+		const document = editor.document;
+		const plans = editor.selections.map(selection =>
+			this.planForCursor(document, selection.active, smartDelete)
+		);
+
+		// No cursor needs smart behavior - keep native Delete
+		if (plans.every(plan => plan === null)) {
+			await vscode.commands.executeCommand('deleteRight');
+			return;
+		}
+
+		const resolvedPlans = plans.map((plan, index) =>
+			plan ?? this.planDefaultDeleteRight(document, editor.selections[index].active)
+		);
+
+		// Edits of neighbouring cursors may touch the same lines - fall back to default then
+		if (!await applyEditPlans(editor, resolvedPlans)) {
+			await vscode.commands.executeCommand('deleteRight');
+		}
+	}
+
+	/**
+	 * Main handler for Smart Delete - supports multiple cursors.
+	 */
+	public async execute(editor: vscode.TextEditor): Promise<void> {
+		const { smartDelete } = getSmartKeysConfiguration(editor.document);
+		const selections = editor.selections;
+
+		// Use default behavior for non-empty selections
+		if (selections.some(selection => !selection.isEmpty)) {
+			await vscode.commands.executeCommand('deleteRight');
+			return;
+		}
+
+		if (selections.length > 1) {
+			await this.executeMultiCursor(editor, smartDelete);
+			return;
+		}
+
+		const plan = this.planForCursor(editor.document, selections[0].active, smartDelete);
+		if (plan) {
+			await applyEditPlan(editor, plan);
+			return;
+		}
+
+		// Default Delete behavior
+		await vscode.commands.executeCommand('deleteRight');
+	}
+}
@@ -1,10 +1,10 @@
 import * as vscode from 'vscode';
 import { calculateIndent } from '../utils/indentHelpers';
-import { setCursorPosition, setCursorPositions } from '../utils/cursorHelpers';
+import { setCursorPosition, setCursorPositions, extendSelections } from '../utils/cursorHelpers';
 import { getSmartKeysConfiguration } from '../configuration';
 
 /**
- * State for tracking the last End position.
+ * State for tracking the last End position of a cursor.
  */
 interface EndPositionState {
 	line: number;
@@ -13,7 +13,8 @@ interface EndPositionState {
 }
 
 export class SmartEndHandler {
-	private lastEndPositions = new Map<string, EndPositionState>();
+	/** Last End positions per document, indexed by selection. */
+	private lastEndPositions = new Map<string, EndPositionState[]>();
 
 	/**
 	 * Reset stored state for a document.
@@ -24,18 +25,25 @@ export class SmartEndHandler {
 
 	/**
 	 * Decide whether End state should be reset after cursor move.
+	 * Any cursor leaving its last End position resets the state of all cursors.
 	 */
 	public shouldResetOnCursorMove(
 		documentUri: string,
-		line: number,
-		character: number
+		positions: readonly vscode.Position[]
 	): boolean {
-		const lastPos = this.lastEndPositions.get(documentUri);
-		if (!lastPos) {
+		const lastPositions = this.lastEndPositions.get(documentUri);
+		if (!lastPositions) {
 			return false;
 		}
-		
-		return line !== lastPos.line || Math.abs(character - lastPos.character) > 1;
+
+		if (positions.length !== lastPositions.length) {
+			return true;
+		}
+
+		return positions.some((position, index) => {
+			const lastPos = lastPositions[index];
+			return position.line !== lastPos.line || Math.abs(position.character - lastPos.character) > 1;
+		});
 	}
 
 	/**
@@ -64,11 +72,11 @@ export class SmartEndHandler {
 		setCursorPosition(editor, currentLine, targetIndent.length);
 		
 		// Store state
-		this.lastEndPositions.set(documentUri, {
+		this.lastEndPositions.set(documentUri, [{
 			line: currentLine,
 			character: targetIndent.length,
 			atTrimmedEnd: false
-		});
+		}]);
 	}
 
 	/**
@@ -78,11 +86,10 @@ export class SmartEndHandler {
 		lineText: string,
 		currentChar: number,
 		currentLine: number,
-		documentUri: string
+		lastPos: EndPositionState | undefined
 	): { position: number; atTrimmedEnd: boolean } {
 		const trimmedLength = lineText.trimEnd().length;
 		const fullLength = lineText.length;
-		const lastPos = this.lastEndPositions.get(documentUri);
 		
 		const isAtEnd = lastPos && 
 			lastPos.line === currentLine && 
@@ -123,24 +130,31 @@ export class SmartEndHandler {
 		documentUri: string
 	): void {
 		const { position, atTrimmedEnd } = this.calculateTargetPosition(
-			lineText, currentChar, currentLine, documentUri
+			lineText, currentChar, currentLine, this.getLastPosition(documentUri, 0)
 		);
 
 		setCursorPosition(editor, currentLine, position);
 		
 		// Store state
-		this.lastEndPositions.set(documentUri, {
+		this.lastEndPositions.set(documentUri, [{
 			line: currentLine,
 			character: position,
 			atTrimmedEnd
-		});
+		}]);
+	}
+
+	/**
+	 * Get the last End position of the cursor at the given selection index.
+	 */
+	private getLastPosition(documentUri: string, index: number): EndPositionState | undefined {
+		return this.lastEndPositions.get(documentUri)?.[index];
 	}
 
 	/**
 	 * Main handler for Smart End - supports multiple cursors.
 	 */
 	public async execute(editor: vscode.TextEditor): Promise<void> {
-		const { smartEnd } = getSmartKeysConfiguration();
+		const { smartEnd } = getSmartKeysConfiguration(editor.document);
 		const document = editor.document;
 		const selections = editor.selections;
 		const documentUri = document.uri.toString();
@@ -182,11 +196,11 @@ export class SmartEndHandler {
 			return;
 		}
 
-		// Multi-cursor: process each cursor
+		// Multi-cursor: process each cursor with its own toggle state
 		const edits: Array<{ range: vscode.Range; text: string }> = [];
-		const newPositions: Array<{ line: number; character: number }> = [];
+		const newPositions: EndPositionState[] = [];
 
-		for (const selection of selections) {
+		for (const [index, selection] of selections.entries()) {
 			const currentLine = selection.active.line;
 			const currentChar = selection.active.character;
 			const lineText = document.lineAt(currentLine).text;
@@ -199,13 +213,13 @@ export class SmartEndHandler {
 					new vscode.Position(currentLine, lineText.length)
 				);
 				edits.push({ range: lineRange, text: targetIndent });
-				newPositions.push({ line: currentLine, character: targetIndent.length });
+				newPositions.push({ line: currentLine, character: targetIndent.length, atTrimmedEnd: false });
 			} else {
 				// Non-empty line - go to trimmed or full end
-				const { position } = this.calculateTargetPosition(
-					lineText, currentChar, currentLine, documentUri
+				const { position, atTrimmedEnd } = this.calculateTargetPosition(
+					lineText, currentChar, currentLine, this.getLastPosition(documentUri, index)
 				);
-				newPositions.push({ line: currentLine, character: position });
+				newPositions.push({ line: currentLine, character: position, atTrimmedEnd });
 			}
 		}
 
@@ -221,8 +235,48 @@ export class SmartEndHandler {
 		// Set all cursor positions
 		setCursorPositions(editor, newPositions);
 
-		// For multi-cursor, reset state (cannot track single state for multiple cursors)
-		this.resetState(documentUri);
+		// Store state
+		this.lastEndPositions.set(documentUri, newPositions);
+	}
+
+	/**
+	 * Handler for Smart End with selection - extends selections instead of collapsing them.
+	 */
+	public async executeSelect(editor: vscode.TextEditor): Promise<void> {
+		const { smartEnd } = getSmartKeysConfiguration(editor.document);
+		const document = editor.document;
+		const selections = editor.selections;
+		const documentUri = document.uri.toString();
+
+		if (!smartEnd.toggleTrimmedEnd) {
+			this.resetState(documentUri);
+			await vscode.commands.executeCommand('cursorEndSelect');
+			return;
+		}
+
+		const newPositions: EndPositionState[] = [];
+
+		for (const [index, selection] of selections.entries()) {
+			const currentLine = selection.active.line;
+			const currentChar = selection.active.character;
+			const lineText = document.lineAt(currentLine).text;
+
+			if (lineText.trim().length === 0) {
+				// Whitespace-only line - no trimmed end to stop at, extend to the line end
+				newPositions.push({ line: currentLine, character: lineText.length, atTrimmedEnd: false });
+				continue;
+			}
+
+			const { position, atTrimmedEnd } = this.calculateTargetPosition(
+				lineText, currentChar, currentLine, this.getLastPosition(documentUri, index)
+			);
+			newPositions.push({ line: currentLine, character: position, atTrimmedEnd });
+		}
+
+		extendSelections(editor, selections, newPositions);
+
+		// Store state
+		this.lastEndPositions.set(documentUri, newPositions);
 	}
 
 	/**
@@ -1,19 +1,86 @@
 import * as vscode from 'vscode';
 import { getIndentFromLine, getIndentUnit } from '../utils/indentHelpers';
 import { setCursorPosition, setCursorPositions } from '../utils/cursorHelpers';
-import { shouldInsertClosingBrace } from '../utils/braceHelpers';
+import { BRACKET_PAIRS, findClosingBracketOnLine } from '../utils/braceHelpers';
+import { BracketIndex, BracketIndexCache } from '../utils/bracketIndex';
 import { insertNewLine } from '../utils/editorCommands';
 import { isJsonDocument } from '../utils/jsonHelpers';
-import { getSmartKeysConfiguration } from '../configuration';
+import { isMarkdownDocument } from '../utils/markdownHelpers';
+import { isPythonDocument } from '../utils/pythonHelpers';
+import { isYamlDocument } from '../utils/yamlHelpers';
+import {
+	buildStringSplit,
+	getStringConcatenation,
+	getStringPrefix,
+	isCharLiteralDelimiter,
+	isEscapedPosition,
+	isInsideInterpolation
+} from '../utils/stringHelpers';
+import { getSmartKeysConfiguration, SmartKeysConfiguration } from '../configuration';
 import { SmartJsonCommaHandler } from './smartJsonCommaHandler';
+import { SmartMarkdownEnterHandler } from './smartMarkdownEnterHandler';
+import { SmartPythonEnterHandler } from './smartPythonEnterHandler';
+import { SmartYamlEnterHandler } from './smartYamlEnterHandler';
 
 export class SmartEnterHandler {
 	private jsonCommaHandler = new SmartJsonCommaHandler();
+	private yamlEnterHandler = new SmartYamlEnterHandler();
+	private markdownEnterHandler = new SmartMarkdownEnterHandler();
+	private pythonEnterHandler = new SmartPythonEnterHandler();
+	private bracketIndexCache = new BracketIndexCache();
 
 	/**
-	 * Check if a selection can expand a brace (cursor is after opening brace).
+	 * Keep the bracket index of a document in sync with its edits.
 	 */
-	private canExpandBrace(document: vscode.TextDocument, selection: vscode.Selection): boolean {
+	public handleDocumentChange(event: vscode.TextDocumentChangeEvent): void {
+		this.bracketIndexCache.update(event);
+	}
+
+	/**
+	 * Drop the bracket index of a closed document.
+	 */
+	public handleDocumentClose(documentUri: string): void {
+		this.bracketIndexCache.delete(documentUri);
+	}
+
+	/**
+	 * Clear all bracket indexes.
+	 */
+	public clear(): void {
+		this.bracketIndexCache.clear();
+	}
+
+	/**
+	 * Get the up-to-date bracket index of a document, shared with commands built on Smart Enter.
+	 */
+	public getBracketIndex(document: vscode.TextDocument): BracketIndex {
+		return this.bracketIndexCache.get(document);
+	}
+
+	/**
+	 * Check whether Enter expansion is enabled for the given opening bracket.
+	 */
+	private isExpansionEnabled(openChar: string, smartEnter: SmartKeysConfiguration['smartEnter']): boolean {
+		switch (openChar) {
+			case '{':
+				return smartEnter.autoInsertClosingBrace;
+			case '[':
+				return smartEnter.autoInsertClosingBracket;
+			case '(':
+				return smartEnter.autoInsertClosingParenthesis;
+			default:
+				return false;
+		}
+	}
+
+	/**
+	 * Check if a selection can expand a bracket (cursor is after an opening bracket).
+	 */
+	private canExpandBrace(
+		document: vscode.TextDocument,
+		selection: vscode.Selection,
+		smartEnter: SmartKeysConfiguration['smartEnter']
+	): boolean {
 		const currentLine = selection.active.line;
 		const currentChar = selection.active.character;
 		const line = document.lineAt(currentLine);
@@ -26,33 +93,216 @@ export class SmartEnterHandler {
 		}
 
 		const lastNonWhitespaceChar = trimmedLine.charAt(trimmedLine.length - 1);
-		if (lastNonWhitespaceChar !== '{') {
+		if (!this.isExpansionEnabled(lastNonWhitespaceChar, smartEnter)) {
 			return false;
 		}
 
 		const braceCharIndex = trimmedLine.length - 1;
-		const documentLines = Array.from({ length: document.lineCount }, (_, lineNumber) => {
-			if (lineNumber === currentLine) {
-				return originalText.slice(0, braceCharIndex + 1);
-			}
-			return document.lineAt(lineNumber).text;
-		});
 
-		return shouldInsertClosingBrace(documentLines, currentLine, braceCharIndex);
+		return this.bracketIndexCache
+			.get(document)
+			.shouldInsertClosingBracket(originalText, currentLine, braceCharIndex);
+	}
+
+	/**
+	 * Build the text replacing everything after the opening bracket with an expanded block.
+	 * Content between the cursor and the matching closing bracket moves to the inner line.
+	 */
+	private buildExpansion(
+		editor: vscode.TextEditor,
+		originalText: string,
+		braceCharIndex: number,
+		currentChar: number
+	): { text: string; innerIndent: string } {
+		const { languageId } = editor.document;
+		const closeChar = BRACKET_PAIRS[originalText.charAt(braceCharIndex)];
+		const baseIndent = getIndentFromLine(originalText);
+		const indentUnit = getIndentUnit(editor);
+		const innerIndent = baseIndent + indentUnit;
+
+		// Find any content after the closing bracket that should be preserved (like semicolons)
+		const closingBraceIndex = findClosingBracketOnLine(originalText, braceCharIndex, languageId);
+		const innerContent = closingBraceIndex !== -1
+			? originalText.slice(currentChar, closingBraceIndex).trim()
+			: originalText.slice(currentChar).trim();
+		const contentToPreserve = closingBraceIndex !== -1
+			? originalText.slice(closingBraceIndex + 1)
+			: '';
+
+		return {
+			text: `\n${innerIndent}${innerContent}\n${baseIndent}${closeChar}${contentToPreserve}`,
+			innerIndent
+		};
+	}
+
+	/**
+	 * Build the Enter edit inside a `/* ... *\/` comment: continue the `*` prefix aligned
+	 * with the existing asterisks and close a comment right after `/**`.
+	 * Returns null if the cursor is not inside such a comment.
+	 */
+	private buildCommentContinuation(
+		document: vscode.TextDocument,
+		position: vscode.Position
+	): { range: vscode.Range; text: string; cursor: vscode.Position } | null {
+		const lineText = document.lineAt(position.line).text;
+		const state = this.bracketIndexCache
+			.get(document)
+			.getScannerState(lineText, position.line, position.character);
+
+		if (state.mode !== 'blockComment' || state.closing !== '*/') {
+			return null;
+		}
+
+		const textBefore = lineText.slice(0, position.character);
+		const textAfter = lineText.slice(position.character).trim();
+		const openingMatch = textBefore.match(/^(\s*)\/\*/);
+		const starMatch = textBefore.match(/^(\s*)\*/);
+
+		// Asterisks are aligned one column after the comment opening
+		const starIndent = openingMatch ? `${openingMatch[1]} ` : starMatch?.[1];
+		if (starIndent === undefined) {
+			return null;
+		}
+
+		const prefix = `${starIndent}* `;
+		const nextLineText = position.line + 1 < document.lineCount ? document.lineAt(position.line + 1).text : '';
+		const isJustOpened = openingMatch !== null && /\/\*\*\s*$/.test(textBefore) &&
+			textAfter.length === 0 && !nextLineText.trim().startsWith('*');
+
+		let text = `\n${prefix}${textAfter}`;
+		if (textAfter.startsWith('*/')) {
+			// Cursor right before the comment end: keep the end on its own line
+			text = `\n${prefix}\n${starIndent}${textAfter}`;
+		} else if (isJustOpened) {
+			text = `\n${prefix}\n${starIndent}*/`;
+		}
+
+		return {
+			range: new vscode.Range(
+				new vscode.Position(position.line, textBefore.trimEnd().length),
+				new vscode.Position(position.line, lineText.length)
+			),
+			text,
+			cursor: new vscode.Position(position.line + 1, prefix.length)
+		};
+	}
+
+	/**
+	 * Find the opening quote of the plain string literal enclosing a position:
+	 * the last delimiter before it that is itself outside strings and comments.
+	 */
+	private findStringStart(
+		document: vscode.TextDocument,
+		lineText: string,
+		position: vscode.Position,
+		delimiter: string
+	): number {
+		const bracketIndex = this.bracketIndexCache.get(document);
+		let quoteIndex = lineText.lastIndexOf(delimiter, position.character - delimiter.length);
+
+		while (quoteIndex > 0 && bracketIndex.getScannerState(lineText, position.line, quoteIndex).mode !== 'code') {
+			quoteIndex = lineText.lastIndexOf(delimiter, quoteIndex - 1);
+		}
+
+		return Math.max(quoteIndex, 0);
+	}
+
+	/**
+	 * Build the Enter edit inside a string literal: close the string, concatenate
+	 * and reopen it on the next line. Returns null if the string cannot be split here.
+	 */
+	private buildStringContinuation(
+		editor: vscode.TextEditor,
+		position: vscode.Position
+	): { range: vscode.Range; text: string; cursor: vscode.Position } | null {
+		const document = editor.document;
+		const concatenation = getStringConcatenation(document.languageId);
+		if (concatenation === null) {
+			return null;
+		}
+
+		const lineText = document.lineAt(position.line).text;
+		const state = this.bracketIndexCache
+			.get(document)
+			.getScannerState(lineText, position.line, position.character);
+
+		if (
+			state.mode !== 'string' ||
+			isEscapedPosition(lineText, position.character) ||
+			isCharLiteralDelimiter(state.closing, document.languageId)
+		) {
+			return null;
+		}
+
+		// Plain string literals always open on the cursor line
+		const quoteIndex = this.findStringStart(document, lineText, position, state.closing);
+		const prefix = getStringPrefix(lineText, quoteIndex, document.languageId);
+		const literalText = lineText.slice(quoteIndex + state.closing.length, position.character);
+		if (prefix === null || isInsideInterpolation(prefix, literalText)) {
+			return null;
+		}
+
+		// A line starting with a string literal already continues a split string
+		const baseIndent = getIndentFromLine(lineText);
+		const continuationIndent = lineText.trimStart().startsWith(`${prefix}${state.closing}`)
+			? baseIndent
+			: baseIndent + getIndentUnit(editor);
+
+		return {
+			range: new vscode.Range(position, position),
+			text: buildStringSplit(state.closing, concatenation, continuationIndent, prefix),
+			cursor: new vscode.Position(
+				position.line + 1,
+				continuationIndent.length + prefix.length + state.closing.length
+			)
+		};
 	}
 
 	public async execute(editor: vscode.TextEditor): Promise<void> {
-		const config = getSmartKeysConfiguration();
 		const document = editor.document;
+		const config = getSmartKeysConfiguration(document);
 		const selections = editor.selections;
+		const { smartEnter } = config;
+
+		// Continue `*` prefix inside block comments and split string literals
+		if (selections.length === 1 && selections[0].isEmpty) {
+			const position = selections[0].active;
+			const continuation =
+				(smartEnter.continueBlockComments ? this.buildCommentContinuation(document, position) : null) ??
+				(smartEnter.splitStrings ? this.buildStringContinuation(editor, position) : null);
+
+			if (continuation) {
+				await editor.edit(editBuilder => {
+					editBuilder.replace(continuation.range, continuation.text);
+				});
+				setCursorPosition(editor, continuation.cursor.line, continuation.cursor.character);
+				return;
+			}
+		}
+
+		// For YAML files, continue lists and indent blocks of keys
+		if (isYamlDocument(document) && await this.yamlEnterHandler.execute(editor)) {
+			return;
+		}
+
+		// For Markdown files, continue lists and blockquotes
+		if (isMarkdownDocument(document) && await this.markdownEnterHandler.execute(editor)) {
+			return;
+		}
+
+		// For Python files, indent by statements instead of expanding brackets
+		if (isPythonDocument(document) && config.python.smartEnter) {
+			if (!await this.pythonEnterHandler.execute(editor, this.bracketIndexCache.get(document))) {
+				await insertNewLine();
+			}
+			return;
+		}
 
 		// For JSON/JSONC files, try to insert comma but continue to brace logic
 		if (isJsonDocument(document) && config.json.insertCommaOnEnter) {
 			await this.jsonCommaHandler.execute(editor, { insertNewLine: false });
 		}
 
-		const { smartEnter } = config;
-
 		// Multi-cursor: check if all selections can use smart behavior
 		if (selections.length > 1) {
 			// If any selection is not empty, use default behavior
@@ -61,9 +311,8 @@ export class SmartEnterHandler {
 				return;
 			}
 
-			// Check if all cursors can expand braces
-			const allCanExpand = smartEnter.autoInsertClosingBrace && 
-				selections.every(sel => this.canExpandBrace(document, sel));
+			// Check if all cursors can expand brackets
+			const allCanExpand = selections.every(sel => this.canExpandBrace(document, sel, smartEnter));
 
 			if (!allCanExpand) {
 				await insertNewLine();
@@ -71,7 +320,7 @@ export class SmartEnterHandler {
 			}
 
 			// All cursors can expand braces - process them
-			await this.executeMultiCursor(editor, selections, document, config);
+			await this.executeMultiCursor(editor, selections, document);
 			return;
 		}
 
@@ -99,49 +348,31 @@ export class SmartEnterHandler {
 		}
 
 		const lastNonWhitespaceChar = trimmedLine.charAt(trimmedLine.length - 1);
-		if (lastNonWhitespaceChar !== '{' || !smartEnter.autoInsertClosingBrace) {
+		if (!this.isExpansionEnabled(lastNonWhitespaceChar, smartEnter)) {
 			await insertNewLine();
 			return;
 		}
 
-		// The opening brace is at the end of the trimmed line
+		// The opening bracket is at the end of the trimmed line
 		const braceCharIndex = trimmedLine.length - 1;
 
-		// No need to check if cursor is before brace since we already sliced up to cursor
+		// No need to check if cursor is before bracket since we already sliced up to cursor
 
-		// Get document lines and remove everything after the opening brace on the current line
+		// The index treats everything after the opening bracket on the current line as removed
 		// This handles the case where user wants to expand {} into a multi-line block
-		const documentLines = Array.from({ length: document.lineCount }, (_, lineNumber) => {
-			if (lineNumber === currentLine) {
-				// Remove everything after the opening brace
-				return originalText.slice(0, braceCharIndex + 1);
-			}
-			return document.lineAt(lineNumber).text;
-		});
+		const bracketIndex = this.bracketIndexCache.get(document);
 
-		if (!shouldInsertClosingBrace(documentLines, currentLine, braceCharIndex)) {
+		if (!bracketIndex.shouldInsertClosingBracket(originalText, currentLine, braceCharIndex)) {
 			await insertNewLine();
 			return;
 		}
 
-		const baseIndent = getIndentFromLine(originalText);
-		const indentUnit = getIndentUnit(editor);
-		const innerIndent = baseIndent + indentUnit;
-
-		// Find any content after the closing brace that should be preserved (like semicolons)
-		const contentAfterBrace = originalText.slice(braceCharIndex + 1);
-		let contentToPreserve = '';
-		let closingBraceIndex = contentAfterBrace.indexOf('}');
-		
-		if (closingBraceIndex !== -1) {
-			// There's a closing brace - preserve everything after it
-			contentToPreserve = contentAfterBrace.slice(closingBraceIndex + 1);
-		}
-
-		const replacementText = `\n${innerIndent}\n${baseIndent}}${contentToPreserve}`;
+		const { text: replacementText, innerIndent } = this.buildExpansion(
+			editor, originalText, braceCharIndex, currentChar
+		);
 
 		await editor.edit(editBuilder => {
-			// Replace everything after the opening brace with the expanded braces
+			// Replace everything after the opening bracket with the expanded block
 			const startPosition = new vscode.Position(currentLine, braceCharIndex + 1);
 			const endPosition = new vscode.Position(currentLine, originalText.length);
 			const rangeToReplace = new vscode.Range(startPosition, endPosition);
@@ -153,13 +384,12 @@ export class SmartEnterHandler {
 	}
 
 	/**
-	 * Execute for multiple cursors - expand braces at each cursor position.
+	 * Execute for multiple cursors - expand brackets at each cursor position.
 	 */
 	private async executeMultiCursor(
 		editor: vscode.TextEditor,
 		selections: readonly vscode.Selection[],
-		document: vscode.TextDocument,
-		config: ReturnType<typeof getSmartKeysConfiguration>
+		document: vscode.TextDocument
 	): Promise<void> {
 		// Sort selections by position (bottom to top, right to left)
 		// This ensures we process from end to start, avoiding position shifts during editing
@@ -182,17 +412,9 @@ export class SmartEnterHandler {
 			const trimmedLine = textUpToCursor.trimEnd();
 			const braceCharIndex = trimmedLine.length - 1;
 
-			const baseIndent = getIndentFromLine(originalText);
-			const indentUnit = getIndentUnit(editor);
-			const innerIndent = baseIndent + indentUnit;
-
-			const contentAfterBrace = originalText.slice(braceCharIndex + 1);
-			const closingBraceIndex = contentAfterBrace.indexOf('}');
-			const contentToPreserve = closingBraceIndex !== -1 
-				? contentAfterBrace.slice(closingBraceIndex + 1) 
-				: '';
-
-			const replacementText = `\n${innerIndent}\n${baseIndent}}${contentToPreserve}`;
+			const { text: replacementText, innerIndent } = this.buildExpansion(
+				editor, originalText, braceCharIndex, currentChar
+			);
 
 			edits.push({
 				range: new vscode.Range(
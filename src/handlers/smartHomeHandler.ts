@@ -0,0 +1,232 @@
+import * as vscode from 'vscode';
+import { calculateIndent } from '../utils/indentHelpers';
+import { setCursorPosition, setCursorPositions, getFirstNonWhitespaceIndex } from '../utils/cursorHelpers';
+import { getSmartKeysConfiguration } from '../configuration';
+
+/**
+ * State for tracking the last Home position.
+ */
+interface HomePositionState {
+	line: number;
+	character: number;
+	atIndentStart: boolean;
+}
+
+export class SmartHomeHandler {
+	private lastHomePositions = new Map<string, HomePositionState>();
+
+	/**
+	 * Reset stored state for a document.
+	 */
+	public resetState(documentUri: string): void {
+		this.lastHomePositions.delete(documentUri);
+	}
+
+	/**
+	 * Decide whether Home state should be reset after cursor move.
+	 */
+	public shouldResetOnCursorMove(
+		documentUri: string,
+		line: number,
+		character: number
+	): boolean {
+		const lastPos = this.lastHomePositions.get(documentUri);
+		if (!lastPos) {
+			return false;
+		}
+
+		return line !== lastPos.line || Math.abs(character - lastPos.character) > 1;
+	}
+
+	/**
+	 * Handle Home on an empty line.
+	 */
+	private async handleEmptyLine(
+		editor: vscode.TextEditor,
+		document: vscode.TextDocument,
+		currentLine: number,
+		lineText: string,
+		documentUri: string
+	): Promise<void> {
+		const targetIndent = calculateIndent(editor, document, currentLine);
+
+		// Insert target indent
+		await editor.edit(editBuilder => {
+			const lineRange = new vscode.Range(
+				new vscode.Position(currentLine, 0),
+				new vscode.Position(currentLine, lineText.length)
+			);
+			editBuilder.replace(lineRange, targetIndent);
+		});
+
+		// Place cursor
+		setCursorPosition(editor, currentLine, targetIndent.length);
+
+		// Store state
+		this.lastHomePositions.set(documentUri, {
+			line: currentLine,
+			character: targetIndent.length,
+			atIndentStart: true
+		});
+	}
+
+	/**
+	 * Calculate target position for Home key on non-empty line.
+	 */
+	private calculateTargetPosition(
+		lineText: string,
+		currentChar: number,
+		currentLine: number,
+		documentUri: string
+	): { position: number; atIndentStart: boolean } {
+		const indentStart = getFirstNonWhitespaceIndex(lineText);
+		const lastPos = this.lastHomePositions.get(documentUri);
+
+		const isAtHome = lastPos &&
+			lastPos.line === currentLine &&
+			currentChar <= indentStart;
+
+		let targetPosition: number;
+		let atIndentStart: boolean;
+
+		if (isAtHome && lastPos.atIndentStart && currentChar === indentStart) {
+			// Switch to line start (column 0)
+			targetPosition = 0;
+			atIndentStart = false;
+		} else if (isAtHome && !lastPos.atIndentStart && currentChar === 0) {
+			// Switch back to first non-whitespace character
+			targetPosition = indentStart;
+			atIndentStart = true;
+		} else if (currentChar === indentStart && indentStart > 0) {
+			// Already at first non-whitespace character, jump to line start
+			targetPosition = 0;
+			atIndentStart = false;
+		} else {
+			// First press: go to first non-whitespace character
+			targetPosition = indentStart;
+			atIndentStart = true;
+		}
+
+		return { position: targetPosition, atIndentStart };
+	}
+
+	/**
+	 * Handle Home on a non-empty line.
+	 */
+	private handleNonEmptyLine(
+		editor: vscode.TextEditor,
+		currentLine: number,
+		currentChar: number,
+		lineText: string,
+		documentUri: string
+	): void {
+		const { position, atIndentStart } = this.calculateTargetPosition(
+			lineText, currentChar, currentLine, documentUri
+		);
+
+		setCursorPosition(editor, currentLine, position);
+
+		// Store state
+		this.lastHomePositions.set(documentUri, {
+			line: currentLine,
+			character: position,
+			atIndentStart
+		});
+	}
+
+	/**
+	 * Main handler for Smart Home - supports multiple cursors.
+	 */
+	public async execute(editor: vscode.TextEditor): Promise<void> {
+		const { smartHome } = getSmartKeysConfiguration(editor.document);
+		const document = editor.document;
+		const selections = editor.selections;
+		const documentUri = document.uri.toString();
+
+		// Check if all selections can use smart behavior
+		const canUseSmartBehavior = selections.every(selection => {
+			if (!selection.isEmpty) {
+				return false;
+			}
+			const currentLine = selection.active.line;
+			const lineText = document.lineAt(currentLine).text;
+
+			if (lineText.trim().length === 0) {
+				return smartHome.indentEmptyLine;
+			} else {
+				return smartHome.toggleIndentStart;
+			}
+		});
+
+		// If cannot use smart behavior for all cursors, fallback to default
+		if (!canUseSmartBehavior) {
+			this.resetState(documentUri);
+			await vscode.commands.executeCommand('cursorHome');
+			return;
+		}
+
+		// For single cursor, use existing logic
+		if (selections.length === 1) {
+			const selection = selections[0];
+			const currentLine = selection.active.line;
+			const currentChar = selection.active.character;
+			const lineText = document.lineAt(currentLine).text;
+
+			if (lineText.trim().length === 0) {
+				await this.handleEmptyLine(editor, document, currentLine, lineText, documentUri);
+			} else {
+				this.handleNonEmptyLine(editor, currentLine, currentChar, lineText, documentUri);
+			}
+			return;
+		}
+
+		// Multi-cursor: process each cursor
+		const edits: Array<{ range: vscode.Range; text: string }> = [];
+		const newPositions: Array<{ line: number; character: number }> = [];
+
+		for (const selection of selections) {
+			const currentLine = selection.active.line;
+			const currentChar = selection.active.character;
+			const lineText = document.lineAt(currentLine).text;
+
+			if (lineText.trim().length === 0) {
+				// Empty line - calculate indent
+				const targetIndent = calculateIndent(editor, document, currentLine);
+				const lineRange = new vscode.Range(
+					new vscode.Position(currentLine, 0),
+					new vscode.Position(currentLine, lineText.length)
+				);
+				edits.push({ range: lineRange, text: targetIndent });
+				newPositions.push({ line: currentLine, character: targetIndent.length });
+			} else {
+				// Non-empty line - go to first non-whitespace character or line start
+				const { position } = this.calculateTargetPosition(
+					lineText, currentChar, currentLine, documentUri
+				);
+				newPositions.push({ line: currentLine, character: position });
+			}
+		}
+
+		// Apply edits if any
+		if (edits.length > 0) {
+			await editor.edit(editBuilder => {
+				for (const edit of edits) {
+					editBuilder.replace(edit.range, edit.text);
+				}
+			});
+		}
+
+		// Set all cursor positions
+		setCursorPositions(editor, newPositions);
+
+		// For multi-cursor, reset state (cannot track single state for multiple cursors)
+		this.resetState(documentUri);
+	}
+
+	/**
+	 * Clear all stored state.
+	 */
+	public clear(): void {
+		this.lastHomePositions.clear();
+	}
+}
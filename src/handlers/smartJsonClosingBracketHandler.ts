@@ -0,0 +1,115 @@
+import * as vscode from 'vscode';
+import { getSmartKeysConfiguration } from '../configuration';
+import { BracketIndex } from '../utils/bracketIndex';
+import { isJsonDocument } from '../utils/jsonHelpers';
+import { getLanguageSyntax, getStateAt, LanguageSyntax, scanLine, ScannerState } from '../utils/syntaxScanner';
+import { SmartEnterHandler } from './smartEnterHandler';
+
+/**
+ * Type a closing bracket using default VS Code command (bypasses type interceptor)
+ */
+async function typeBracketDefault(bracket: string): Promise<void> {
+	await vscode.commands.executeCommand('default:type', { text: bracket });
+}
+
+/**
+ * Find the last code character of a line: the comma if it is one, or null for any other character
+ * or a string. Returns undefined when the line holds no code.
+ */
+function findLastCodeComma(lineText: string, state: ScannerState, syntax: LanguageSyntax): number | null | undefined {
+	let comma: number | null | undefined;
+
+	scanLine(
+		lineText,
+		state,
+		syntax,
+		(char, charIndex) => {
+			if (!/\s/.test(char)) {
+				comma = char === ',' ? charIndex : null;
+			}
+		},
+		() => {
+			comma = null;
+		}
+	);
+
+	return comma;
+}
+
+export class SmartJsonClosingBracketHandler {
+	private smartEnterHandler: SmartEnterHandler;
+
+	constructor(smartEnterHandler: SmartEnterHandler = new SmartEnterHandler()) {
+		this.smartEnterHandler = smartEnterHandler;
+	}
+
+	/**
+	 * Find a comma that would become a trailing comma once a bracket is typed at the cursor.
+	 * Blank lines and comments between the comma and the cursor are skipped.
+	 */
+	private findTrailingComma(
+		document: vscode.TextDocument,
+		bracketIndex: BracketIndex,
+		position: vscode.Position
+	): vscode.Position | null {
+		const syntax = getLanguageSyntax(document.languageId);
+		const textBeforeCursor = document.lineAt(position.line).text.slice(0, position.character);
+		const cursorLineState = bracketIndex.getLineStartState(position.line);
+
+		// Brackets typed inside strings and comments are plain text
+		if (getStateAt(textBeforeCursor, cursorLineState, syntax, textBeforeCursor.length).mode !== 'code') {
+			return null;
+		}
+
+		// Look back only as far as the previous code character
+		for (let line = position.line; line >= 0; line--) {
+			const lineText = line === position.line ? textBeforeCursor : document.lineAt(line).text;
+			const state = line === position.line ? cursorLineState : bracketIndex.getLineStartState(line);
+			const comma = findLastCodeComma(lineText, state, syntax);
+
+			if (comma !== undefined) {
+				return comma === null ? null : new vscode.Position(line, comma);
+			}
+		}
+
+		return null;
+	}
+
+	/**
+	 * Execute smart closing bracket: remove the trailing comma before `}` or `]`.
+	 * Note: Multi-cursor support uses fallback to default behavior.
+	 */
+	public async execute(editor: vscode.TextEditor, bracket: '}' | ']'): Promise<void> {
+		const { document, selections } = editor;
+		const config = getSmartKeysConfiguration(document);
+
+		// Check if feature is enabled
+		if (!config.json.removeTrailingComma) {
+			await typeBracketDefault(bracket);
+			return;
+		}
+
+		// Only activate for JSON/JSONC files; JSONC may opt into trailing commas
+		if (!isJsonDocument(document) ||
+			(document.languageId === 'jsonc' && config.json.allowTrailingCommas)) {
+			await typeBracketDefault(bracket);
+			return;
+		}
+
+		// Multi-cursor: use default behavior
+		if (selections.length > 1 || !selections[0].isEmpty) {
+			await typeBracketDefault(bracket);
+			return;
+		}
+
+		const bracketIndex = this.smartEnterHandler.getBracketIndex(document);
+		const commaPosition = this.findTrailingComma(document, bracketIndex, selections[0].active);
+		if (commaPosition) {
+			await editor.edit(editBuilder => {
+				editBuilder.delete(new vscode.Range(commaPosition, commaPosition.translate(0, 1)));
+			}, { undoStopBefore: true, undoStopAfter: false });
+		}
+
+		await typeBracketDefault(bracket);
+	}
+}
@@ -1,6 +1,27 @@
 import * as vscode from 'vscode';
 import { getSmartKeysConfiguration } from '../configuration';
-import { isJsonDocument } from '../utils/jsonHelpers';
+import {
+	findMissingCommaBefore,
+	getExpectedValueType,
+	getJsonContainer,
+	isJsonDocument,
+	lookupPropertyName
+} from '../utils/jsonHelpers';
+import { JsonValueType } from '../utils/jsonScanner';
+
+/**
+ * Empty values pre-inserted after the colon for property types that have one.
+ */
+const VALUE_PLACEHOLDERS: Partial<Record<JsonValueType, string>> = {
+	string: '""',
+	object: '{}',
+	array: '[]'
+};
+
+/**
+ * How long the unknown property warning stays in the status bar.
+ */
+const UNKNOWN_PROPERTY_MESSAGE_TIMEOUT = 5000;
 
 /**
  * Type colon using default VS Code command (bypasses type interceptor)
@@ -10,6 +31,8 @@ async function typeColonDefault(): Promise<void> {
 }
 
 export class SmartJsonColonHandler {
+	private unknownPropertyMessage: vscode.Disposable | undefined;
+
 	/**
 	 * Find the property name before the cursor (unquoted or quoted)
 	 */
@@ -76,7 +99,7 @@ export class SmartJsonColonHandler {
 	 */
 	public async execute(editor: vscode.TextEditor): Promise<void> {
 		const { document, selections } = editor;
-		const config = getSmartKeysConfiguration();
+		const config = getSmartKeysConfiguration(document);
 
 		// Only activate for JSON/JSONC files
 		if (!isJsonDocument(document)) {
@@ -117,6 +140,25 @@ export class SmartJsonColonHandler {
 			return;
 		}
 
+		// Both schema lookups below need the enclosing object, so scan for it once
+		const version = document.version;
+		const wantsValue = config.json.insertValueByType && lineText.substring(currentChar).trim().length === 0;
+		const container = config.json.validatePropertyNames || wantsValue
+			? getJsonContainer(document, new vscode.Position(currentLine, propertyInfo.startPos))
+			: null;
+
+		// Check the property against the JSON Schema: fix its case or warn when it is undeclared
+		this.unknownPropertyMessage?.dispose();
+		this.unknownPropertyMessage = undefined;
+
+		let propertyName = propertyInfo.propertyName;
+		let isUndeclared = false;
+		if (config.json.validatePropertyNames) {
+			const lookup = await lookupPropertyName(document, container, propertyName);
+			propertyName = lookup.kind === 'known' ? lookup.name : propertyName;
+			isUndeclared = lookup.kind === 'unknown';
+		}
+
 		// Build the text to insert
 		let textToInsert = ':';
 		
@@ -128,11 +170,41 @@ export class SmartJsonColonHandler {
 		// Determine if we need to add quotes
 		const needsQuotes = !propertyInfo.isQuoted && config.json.addQuotesToPropertyNames;
 
+		// Pre-insert an empty value of the expected type at the end of the line
+		let valuePlaceholder = '';
+		if (wantsValue) {
+			const valueType = await getExpectedValueType(document, container, propertyName);
+			valuePlaceholder = valueType ? VALUE_PLACEHOLDERS[valueType] ?? '' : '';
+		}
+
+		// Text typed while the schema was loading invalidates the positions computed above
+		if (document.version !== version || !editor.selection.active.isEqual(selection.active)) {
+			await typeColonDefault();
+			return;
+		}
+
+		if (isUndeclared) {
+			this.unknownPropertyMessage = vscode.window.setStatusBarMessage(
+				`$(warning) Property "${propertyName}" is not declared in the JSON schema`,
+				UNKNOWN_PROPERTY_MESSAGE_TIMEOUT
+			);
+		}
+
 		// Calculate where we'll insert the colon
 		// The insertion point is right after the property name (and closing quote if quoted)
 		const colonInsertPos = propertyInfo.endPos;
+
+		// A property starting its line is a new sibling: the value above may lack a comma
+		const startsLine = lineText.substring(0, propertyInfo.startPos).trim().length === 0;
+		const missingCommaPosition = startsLine && config.json.insertCommaBeforeNewProperty
+			? findMissingCommaBefore(document, currentLine)
+			: null;
 		
 		await editor.edit((editBuilder) => {
+			if (missingCommaPosition) {
+				editBuilder.insert(missingCommaPosition, ',');
+			}
+
 			// First, remove any trailing whitespace after the property name
 			if (propertyInfo.trailingWhitespace > 0) {
 				const wsRange = new vscode.Range(
@@ -152,7 +224,17 @@ export class SmartJsonColonHandler {
 					currentLine,
 					propertyInfo.endPos
 				);
-				editBuilder.replace(replaceRange, `"${propertyInfo.propertyName}"`);
+				editBuilder.replace(replaceRange, `"${propertyName}"`);
+			} else if (propertyName !== propertyInfo.propertyName) {
+				// Replace property name with its case-corrected version, keeping quotes
+				const quoteLength = propertyInfo.isQuoted ? 1 : 0;
+				const replaceRange = new vscode.Range(
+					currentLine,
+					propertyInfo.startPos + quoteLength,
+					currentLine,
+					propertyInfo.endPos - quoteLength
+				);
+				editBuilder.replace(replaceRange, propertyName);
 			}
 			
 			// Insert colon (and space) at the end of property name
@@ -167,7 +249,7 @@ export class SmartJsonColonHandler {
 			}
 			
 			const insertPosition = new vscode.Position(currentLine, finalInsertPos);
-			editBuilder.insert(insertPosition, textToInsert);
+			editBuilder.insert(insertPosition, textToInsert + valuePlaceholder);
 		});
 
 		// Move cursor to after the inserted text
@@ -181,6 +263,10 @@ export class SmartJsonColonHandler {
 		if (needsQuotes) {
 			newCursorPos += 2; // Added opening and closing quotes
 		}
+		// Place cursor inside the empty value
+		if (valuePlaceholder) {
+			newCursorPos += 1;
+		}
 		
 		const newPosition = new vscode.Position(currentLine, newCursorPos);
 		editor.selection = new vscode.Selection(newPosition, newPosition);
@@ -1,44 +1,9 @@
 import * as vscode from 'vscode';
 import { insertNewLine } from '../utils/editorCommands';
 import { getSmartKeysConfiguration } from '../configuration';
-import { isJsonDocument } from '../utils/jsonHelpers';
+import { findMissingComma, isJsonDocument } from '../utils/jsonHelpers';
 
 export class SmartJsonCommaHandler {
-	/**
-	 * Check if a line needs a comma (has a value but no comma at the end)
-	 */
-	private lineNeedsComma(lineText: string): boolean {
-		const trimmed = lineText.trim();
-		
-		// Empty line or only whitespace
-		if (trimmed.length === 0) {
-			return false;
-		}
-		
-		// Already has comma at the end
-		if (trimmed.endsWith(',')) {
-			return false;
-		}
-		
-		// Check if line appears to be a property value
-		// Should have a colon and end with a value (string, number, boolean, null, closing bracket)
-		if (!trimmed.includes(':')) {
-			return false;
-		}
-		
-		// Check if ends with a value
-		const endsWithValue = 
-			trimmed.endsWith('"') ||  // string value
-			trimmed.endsWith('}') ||  // object value
-			trimmed.endsWith(']') ||  // array value
-			/\d$/.test(trimmed) ||    // number value
-			trimmed.endsWith('true') ||
-			trimmed.endsWith('false') ||
-			trimmed.endsWith('null');
-
-		return endsWithValue;
-	}
-
 	/**
 	 * Execute smart comma insertion on Enter.
 	 * Note: Multi-cursor support uses fallback (skips comma insertion).
@@ -55,7 +20,7 @@ export class SmartJsonCommaHandler {
 		};
 
 		const { document, selections } = editor;
-		const config = getSmartKeysConfiguration();
+		const config = getSmartKeysConfiguration(document);
 
 		// Check if feature is enabled
 		if (!config.json.insertCommaOnEnter) {
@@ -83,19 +48,15 @@ export class SmartJsonCommaHandler {
 			return false;
 		}
 
-		const currentLine = selection.active.line;
-		const line = document.lineAt(currentLine);
-		const lineText = line.text;
-
-		// Check if line needs a comma
-		if (!this.lineNeedsComma(lineText)) {
+		// Check if line ends a value that needs a comma (placed before any trailing comment)
+		// A cursor before the end of the value (e.g. before a closing bracket) splits it instead
+		const commaPosition = findMissingComma(document, selection.active.line);
+		if (!commaPosition || selection.active.character < commaPosition.character) {
 			await insertNewLineIfAllowed();
 			return false;
 		}
+
 		// Add comma before inserting newline
-		const trimmedLength = lineText.trimEnd().length;
-		const commaPosition = new vscode.Position(currentLine, trimmedLength);
-		
 		await editor.edit((editBuilder) => {
 			editBuilder.insert(commaPosition, ',');
 		});
@@ -0,0 +1,64 @@
+import * as vscode from 'vscode';
+import { getSmartKeysConfiguration } from '../configuration';
+import { findMissingCommaBefore, isJsonDocument } from '../utils/jsonHelpers';
+import { SmartEnterHandler } from './smartEnterHandler';
+
+/**
+ * Type quote using default VS Code command (bypasses type interceptor)
+ */
+async function typeQuoteDefault(): Promise<void> {
+	await vscode.commands.executeCommand('default:type', { text: '"' });
+}
+
+export class SmartJsonQuoteHandler {
+	private smartEnterHandler: SmartEnterHandler;
+
+	constructor(smartEnterHandler: SmartEnterHandler = new SmartEnterHandler()) {
+		this.smartEnterHandler = smartEnterHandler;
+	}
+
+	/**
+	 * Execute smart quote: starting a new property adds the missing comma after the previous value.
+	 * Note: Multi-cursor support uses fallback to default behavior.
+	 */
+	public async execute(editor: vscode.TextEditor): Promise<void> {
+		const { document, selections } = editor;
+		const config = getSmartKeysConfiguration(document);
+
+		// Check if feature is enabled and only activate for JSON/JSONC files
+		if (!config.json.insertCommaBeforeNewProperty || !isJsonDocument(document)) {
+			await typeQuoteDefault();
+			return;
+		}
+
+		// Multi-cursor: use default behavior
+		if (selections.length > 1 || !selections[0].isEmpty) {
+			await typeQuoteDefault();
+			return;
+		}
+
+		// Only a quote at the start of a line begins a new property
+		const { line, character } = selections[0].active;
+		const lineText = document.lineAt(line).text;
+		if (lineText.substring(0, character).trim().length > 0) {
+			await typeQuoteDefault();
+			return;
+		}
+
+		// Quotes typed inside comments and multi-line strings are plain text
+		const state = this.smartEnterHandler.getBracketIndex(document).getScannerState(lineText, line, character);
+		if (state.mode !== 'code') {
+			await typeQuoteDefault();
+			return;
+		}
+
+		const commaPosition = findMissingCommaBefore(document, line);
+		if (commaPosition) {
+			await editor.edit(editBuilder => {
+				editBuilder.insert(commaPosition, ',');
+			}, { undoStopBefore: true, undoStopAfter: false });
+		}
+
+		await typeQuoteDefault();
+	}
+}
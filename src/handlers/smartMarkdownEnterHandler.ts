@@ -0,0 +1,140 @@
+import * as vscode from 'vscode';
+import { getSmartKeysConfiguration } from '../configuration';
+import { setCursorPosition } from '../utils/cursorHelpers';
+import {
+	closesMarkdownFence,
+	isInMarkdownCodeFence,
+	isMarkdownDocument,
+	MarkdownLinePrefix,
+	matchMarkdownFence,
+	matchMarkdownPrefix
+} from '../utils/markdownHelpers';
+
+interface MarkdownTextEdit {
+	range: vscode.Range;
+	text: string;
+}
+
+export class SmartMarkdownEnterHandler {
+	/**
+	 * Build edits renumbering the ordered list items following a new item numbered `number`.
+	 * Blank lines and indented item content between the items belong to the list.
+	 */
+	private buildRenumbering(
+		document: vscode.TextDocument,
+		line: number,
+		prefix: MarkdownLinePrefix,
+		number: number
+	): MarkdownTextEdit[] {
+		const edits: MarkdownTextEdit[] = [];
+		const delimiter = prefix.bullet.slice(-1);
+		let expected = number + 1;
+		let openingFence: string | null = null;
+
+		for (let index = line + 1; index < document.lineCount; index++) {
+			const lineText = document.lineAt(index).text;
+
+			// Code blocks nested in items are content, not items
+			if (openingFence !== null) {
+				openingFence = closesMarkdownFence(lineText, openingFence) ? null : openingFence;
+				continue;
+			}
+
+			const item = matchMarkdownPrefix(lineText);
+
+			if (item && item.number !== null && item.quote === prefix.quote && item.bullet.endsWith(delimiter)) {
+				if (item.number !== expected) {
+					const start = item.quote.length;
+					edits.push({
+						range: new vscode.Range(index, start, index, start + item.bullet.length - 1),
+						text: String(expected)
+					});
+				}
+				expected++;
+				continue;
+			}
+
+			const isItemContent = lineText.startsWith(prefix.quote) && /^\s/.test(lineText.slice(prefix.quote.length));
+			if (lineText.trim() !== '' && !isItemContent) {
+				break;
+			}
+			openingFence = matchMarkdownFence(lineText);
+		}
+
+		return edits;
+	}
+
+	/**
+	 * Build the Enter edits for a Markdown line: end an empty list item or blockquote,
+	 * or continue its markers on the next line. Returns null when default Enter is fine.
+	 */
+	private buildContinuation(
+		editor: vscode.TextEditor,
+		position: vscode.Position
+	): { edits: MarkdownTextEdit[]; cursor: vscode.Position } | null {
+		const { markdown } = getSmartKeysConfiguration(editor.document);
+		const lineText = editor.document.lineAt(position.line).text;
+		const prefix = matchMarkdownPrefix(lineText);
+
+		if (!prefix || position.character < prefix.length) {
+			return null;
+		}
+
+		// Lists and quotes inside fenced code blocks are code
+		if (isInMarkdownCodeFence(editor.document, position.line)) {
+			return null;
+		}
+		if (prefix.bullet ? !markdown.continueLists : !markdown.continueBlockquotes) {
+			return null;
+		}
+
+		// Empty item: remove the list marker, or the innermost blockquote marker
+		if (lineText.slice(prefix.length).trim() === '') {
+			const text = prefix.bullet ? prefix.quote : prefix.quote.replace(/>\s?$/, '');
+			return {
+				edits: [{ range: new vscode.Range(position.line, 0, position.line, lineText.length), text }],
+				cursor: new vscode.Position(position.line, text.length)
+			};
+		}
+
+		const number = prefix.number !== null ? prefix.number + 1 : null;
+		const bullet = number !== null ? `${number}${prefix.bullet.slice(-1)}` : prefix.bullet;
+		const markers = `${prefix.quote}${bullet}${prefix.spacing}${prefix.checkbox ? '[ ] ' : ''}`;
+		const textBefore = lineText.slice(0, position.character);
+		const splitStart = Math.max(prefix.length, textBefore.trimEnd().length);
+
+		const edits: MarkdownTextEdit[] = [{
+			range: new vscode.Range(position.line, splitStart, position.line, lineText.length),
+			text: `\n${markers}${lineText.slice(position.character).trim()}`
+		}];
+
+		if (number !== null && markdown.renumberLists) {
+			edits.push(...this.buildRenumbering(editor.document, position.line, prefix, number));
+		}
+
+		return { edits, cursor: new vscode.Position(position.line + 1, markers.length) };
+	}
+
+	/**
+	 * Execute Markdown Enter handling. Returns true if Enter was handled.
+	 * Note: Multi-cursor support uses fallback (returns false).
+	 */
+	public async execute(editor: vscode.TextEditor): Promise<boolean> {
+		const { document, selections } = editor;
+
+		if (!isMarkdownDocument(document) || selections.length > 1 || !selections[0].isEmpty) {
+			return false;
+		}
+
+		const continuation = this.buildContinuation(editor, selections[0].active);
+		if (!continuation) {
+			return false;
+		}
+
+		await editor.edit(editBuilder => {
+			continuation.edits.forEach(({ range, text }) => editBuilder.replace(range, text));
+		});
+		setCursorPosition(editor, continuation.cursor.line, continuation.cursor.character);
+		return true;
+	}
+}
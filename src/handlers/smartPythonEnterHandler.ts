@@ -0,0 +1,110 @@
+import * as vscode from 'vscode';
+import { BracketIndex } from '../utils/bracketIndex';
+import { applyEditPlan, applyEditPlans, EditPlan } from '../utils/editPlans';
+import { decreaseIndent, getIndentFromLine, getIndentUnit } from '../utils/indentHelpers';
+import {
+	endsPythonBlock,
+	getPythonStatementContext,
+	isPythonBlockHeader,
+	isPythonDocument
+} from '../utils/pythonHelpers';
+
+export class SmartPythonEnterHandler {
+	/**
+	 * Calculate the indent of the line after the position from the statement it belongs to:
+	 * one level deeper after a block header or an opening bracket, one level less after
+	 * a statement ending the block. Returns null inside strings.
+	 */
+	private calculateIndent(
+		editor: vscode.TextEditor,
+		bracketIndex: BracketIndex,
+		position: vscode.Position
+	): string | null {
+		const { document } = editor;
+		const context = getPythonStatementContext(document, bracketIndex, position.line, position.character);
+
+		if (context.inString) {
+			return null;
+		}
+
+		const startLineText = document.lineAt(context.startLine).text;
+		const statementIndent = getIndentFromLine(startLineText);
+		const lineIndent = getIndentFromLine(document.lineAt(position.line).text);
+
+		// Continuation lines inside brackets or after a backslash
+		if (context.openBrackets > 0) {
+			return /[([{]$/.test(context.code) ? lineIndent + getIndentUnit(editor) : lineIndent;
+		}
+		if (context.code.endsWith('\\')) {
+			return context.startLine === position.line ? statementIndent + getIndentUnit(editor) : lineIndent;
+		}
+
+		if (isPythonBlockHeader(context, startLineText)) {
+			return statementIndent + getIndentUnit(editor);
+		}
+		if (endsPythonBlock(context, startLineText)) {
+			return decreaseIndent(statementIndent, editor);
+		}
+
+		return statementIndent;
+	}
+
+	/**
+	 * Plan the newline for a single cursor, or null inside strings.
+	 */
+	private planForCursor(
+		editor: vscode.TextEditor,
+		bracketIndex: BracketIndex,
+		position: vscode.Position
+	): EditPlan | null {
+		const indent = this.calculateIndent(editor, bracketIndex, position);
+		if (indent === null) {
+			return null;
+		}
+
+		// Trailing whitespace stays behind, leading whitespace of the moved text is replaced by the indent
+		const lineText = editor.document.lineAt(position.line).text;
+		const textBefore = lineText.slice(0, position.character);
+		const textAfter = lineText.slice(position.character);
+		const range = new vscode.Range(
+			position.line, textBefore.trimEnd().length,
+			position.line, lineText.length - textAfter.trimStart().length
+		);
+
+		return { edits: [{ range, text: `\n${indent}` }], cursor: range.end };
+	}
+
+	/**
+	 * Execute Python Enter handling. Returns true if Enter was handled.
+	 * With multiple cursors, cursors inside strings get a plain newline.
+	 * Pass the cached bracket index of the document to avoid rescanning it.
+	 */
+	public async execute(
+		editor: vscode.TextEditor,
+		bracketIndex: BracketIndex = new BracketIndex(editor.document)
+	): Promise<boolean> {
+		const { document, selections } = editor;
+
+		if (!isPythonDocument(document) || selections.some(selection => !selection.isEmpty)) {
+			return false;
+		}
+
+		const plans = selections.map(selection => this.planForCursor(editor, bracketIndex, selection.active));
+		if (plans.every(plan => plan === null)) {
+			return false;
+		}
+
+		if (plans.length === 1 && plans[0]) {
+			await applyEditPlan(editor, plans[0]);
+			return true;
+		}
+
+		const resolvedPlans = plans.map((plan, index): EditPlan => {
+			const position = selections[index].active;
+			return plan ?? { edits: [{ range: new vscode.Range(position, position), text: '\n' }], cursor: position };
+		});
+
+		// Edits of neighbouring cursors may touch the same text - fall back to default then
+		return applyEditPlans(editor, resolvedPlans);
+	}
+}
@@ -0,0 +1,78 @@
+import * as vscode from 'vscode';
+import { getSmartKeysConfiguration } from '../configuration';
+import {
+	isInYamlBlockScalar,
+	isYamlDocument,
+	isYamlMappingList,
+	matchYamlListItem
+} from '../utils/yamlHelpers';
+
+/**
+ * Type colon using default VS Code command (bypasses type interceptor)
+ */
+async function typeColonDefault(): Promise<void> {
+	await vscode.commands.executeCommand('default:type', { text: ':' });
+}
+
+export class SmartYamlColonHandler {
+	/**
+	 * Find the end of a mapping key right before the cursor (`key`, `- key`, `"quoted key"`),
+	 * excluding trailing whitespace. Returns -1 if the text before the cursor is not a key.
+	 */
+	private findKeyEnd(textBeforeCursor: string): number {
+		const match = textBeforeCursor.match(/^(\s*(?:-\s+)?(?:[^\s:#'"{}[\],&*!|>%@`-][^:#]*?|"(?:[^"\\]|\\.)*"|'(?:[^']|'')*'))\s*$/);
+		return match ? match[1].length : -1;
+	}
+
+	/**
+	 * Execute smart colon insertion.
+	 * Note: Multi-cursor support uses fallback to default behavior.
+	 */
+	public async execute(editor: vscode.TextEditor): Promise<void> {
+		const { document, selections } = editor;
+		const config = getSmartKeysConfiguration(document);
+
+		// Check if feature is enabled and only activate for YAML files
+		if (!config.yaml.addWhitespaceAfterColon || !isYamlDocument(document)) {
+			await typeColonDefault();
+			return;
+		}
+
+		// Multi-cursor: use default behavior
+		if (selections.length > 1 || !selections[0].isEmpty) {
+			await typeColonDefault();
+			return;
+		}
+
+		const { line, character } = selections[0].active;
+		const lineText = document.lineAt(line).text;
+
+		// Block scalar content (`run: |`) is plain text
+		if (isInYamlBlockScalar(document, line)) {
+			await typeColonDefault();
+			return;
+		}
+
+		const keyEnd = this.findKeyEnd(lineText.slice(0, character));
+
+		// Only a key followed by nothing or by its value gets a space
+		if (keyEnd === -1 || /^\s/.test(lineText.slice(character))) {
+			await typeColonDefault();
+			return;
+		}
+
+		// A list entry may be a scalar such as `- nginx`: only entries of a list of mappings start a key
+		if (matchYamlListItem(lineText) && !isYamlMappingList(document, line)) {
+			await typeColonDefault();
+			return;
+		}
+
+		// Replace whitespace between key and cursor with the colon and a space
+		await editor.edit(editBuilder => {
+			editBuilder.replace(new vscode.Range(line, keyEnd, line, character), ': ');
+		});
+
+		const newPosition = new vscode.Position(line, keyEnd + 2);
+		editor.selection = new vscode.Selection(newPosition, newPosition);
+	}
+}
@@ -0,0 +1,84 @@
+import * as vscode from 'vscode';
+import { getSmartKeysConfiguration } from '../configuration';
+import { setCursorPosition } from '../utils/cursorHelpers';
+import { decreaseIndent, getIndentUnit } from '../utils/indentHelpers';
+import { isYamlDocument, matchYamlListItem, opensYamlBlock } from '../utils/yamlHelpers';
+
+export class SmartYamlEnterHandler {
+	/**
+	 * Build the Enter edit for a YAML line: end an empty list entry, continue a list
+	 * or indent the block of a key. Returns null when default Enter is fine.
+	 */
+	private buildContinuation(
+		editor: vscode.TextEditor,
+		position: vscode.Position
+	): { range: vscode.Range; text: string; cursor: vscode.Position } | null {
+		const { yaml } = getSmartKeysConfiguration(editor.document);
+		const lineText = editor.document.lineAt(position.line).text;
+		const textBefore = lineText.slice(0, position.character);
+		const textAfter = lineText.slice(position.character).trim();
+		const listItem = matchYamlListItem(lineText);
+		const lineRange = new vscode.Range(position.line, 0, position.line, lineText.length);
+
+		// Empty list entry: remove the bullet and leave the list
+		if (yaml.continueLists && listItem && lineText.trim() === '-') {
+			const indent = decreaseIndent(listItem[1], editor);
+			return {
+				range: lineRange,
+				text: indent,
+				cursor: new vscode.Position(position.line, indent.length)
+			};
+		}
+
+		const splitRange = new vscode.Range(
+			position.line, textBefore.trimEnd().length,
+			position.line, lineText.length
+		);
+
+		// Key without value: indent its block, aligned past the bullet of a list entry
+		if (yaml.indentAfterKey && opensYamlBlock(textBefore)) {
+			const keyIndent = listItem ? ' '.repeat(listItem[0].length) : textBefore.match(/^\s*/)?.[0] ?? '';
+			const indent = keyIndent + getIndentUnit(editor);
+			return {
+				range: splitRange,
+				text: `\n${indent}${textAfter}`,
+				cursor: new vscode.Position(position.line + 1, indent.length)
+			};
+		}
+
+		// Cursor after the bullet of a list entry: start the next entry
+		if (yaml.continueLists && listItem && position.character >= listItem[0].length) {
+			const bullet = `${listItem[1]}- `;
+			return {
+				range: splitRange,
+				text: `\n${bullet}${textAfter}`,
+				cursor: new vscode.Position(position.line + 1, bullet.length)
+			};
+		}
+
+		return null;
+	}
+
+	/**
+	 * Execute YAML Enter handling. Returns true if Enter was handled.
+	 * Note: Multi-cursor support uses fallback (returns false).
+	 */
+	public async execute(editor: vscode.TextEditor): Promise<boolean> {
+		const { document, selections } = editor;
+
+		if (!isYamlDocument(document) || selections.length > 1 || !selections[0].isEmpty) {
+			return false;
+		}
+
+		const continuation = this.buildContinuation(editor, selections[0].active);
+		if (!continuation) {
+			return false;
+		}
+
+		await editor.edit(editBuilder => {
+			editBuilder.replace(continuation.range, continuation.text);
+		});
+		setCursorPosition(editor, continuation.cursor.line, continuation.cursor.character);
+		return true;
+	}
+}
@@ -0,0 +1,476 @@
+import * as assert from 'assert';
+import { BracketIndex, IndexableChange, IndexableDocument } from '../utils/bracketIndex';
+import { BRACKET_PAIRS } from '../utils/braceHelpers';
+import { getLanguageSyntax, scanLines } from '../utils/syntaxScanner';
+
+/**
+ * Create a minimal in-memory document.
+ */
+function createDocument(lines: string[], languageId: string = 'typescript', version: number = 1): IndexableDocument {
+    return {
+        lineCount: lines.length,
+        languageId,
+        version,
+        lineAt: (line: number) => ({ text: lines[line] })
+    };
+}
+
+/**
+ * Replace lines [startLine, endLine] with new text and return the change.
+ */
+function replaceLines(lines: string[], startLine: number, endLine: number, text: string): IndexableChange {
+    lines.splice(startLine, endLine - startLine + 1, ...text.split('\n'));
+    return { range: { start: { line: startLine }, end: { line: endLine } }, text };
+}
+
+/**
+ * Positions of opening brackets of one kind left unmatched by a scan of the whole document.
+ */
+function scanUnmatchedBrackets(lines: string[], openChar: string, languageId: string): Array<{ line: number; char: number }> {
+    const stack: Array<{ line: number; char: number }> = [];
+    scanLines(lines, getLanguageSyntax(languageId), (char, lineNumber, charIndex) => {
+        if (char === openChar) {
+            stack.push({ line: lineNumber, char: charIndex });
+        } else if (char === BRACKET_PAIRS[openChar] && stack.length > 0) {
+            stack.pop();
+        }
+    });
+    return stack;
+}
+
+/**
+ * Unmatched opening brackets of every kind on a line, found by a scan of the whole document.
+ */
+function scanUnmatchedBracketsOnLine(lines: string[], line: number, languageId: string): Array<{ char: number; openChar: string }> {
+    return Object.keys(BRACKET_PAIRS)
+        .flatMap(openChar => scanUnmatchedBrackets(lines, openChar, languageId)
+            .filter(position => position.line === line)
+            .map(position => ({ char: position.char, openChar })))
+        .sort((a, b) => a.char - b.char);
+}
+
+/**
+ * Whether a closing bracket should be inserted, decided by scans of the whole document:
+ * the bracket is unmatched, or removing it leaves fewer unmatched brackets.
+ */
+function scanShouldInsertClosingBracket(lines: string[], line: number, char: number, languageId: string): boolean {
+    const openChar = lines[line].charAt(char);
+    const unmatched = scanUnmatchedBrackets(lines, openChar, languageId);
+    if (unmatched.some(position => position.line === line && position.char === char)) {
+        return true;
+    }
+
+    const withoutBracket = [...lines];
+    withoutBracket[line] = lines[line].slice(0, char) + lines[line].slice(char + 1);
+    return scanUnmatchedBrackets(withoutBracket, openChar, languageId).length < unmatched.length;
+}
+
+/**
+ * Whether the bracket at a position stays unmatched according to the index.
+ */
+function isUnmatched(index: BracketIndex, lines: string[], line: number, char: number): boolean {
+    return index.findUnmatchedBracketsOnLine(lines[line] ?? '', line).some(bracket => bracket.char === char);
+}
+
+/**
+ * Number of brackets left open at the end of the document according to the index.
+ */
+function countOpenBrackets(lines: string[], languageId: string = 'typescript'): number {
+    return new BracketIndex(createDocument(lines, languageId)).getOpenBracketCount(lines.length);
+}
+
+/**
+ * Compare the index against a full rescan for every opening bracket in the document.
+ */
+function assertMatchesFullScan(index: BracketIndex, lines: string[], languageId: string = 'typescript'): void {
+    lines.forEach((lineText, lineNumber) => {
+        for (let charIndex = 0; charIndex < lineText.length; charIndex++) {
+            if (!'{[('.includes(lineText.charAt(charIndex))) {
+                continue;
+            }
+            const truncated = [...lines];
+            truncated[lineNumber] = lineText.slice(0, charIndex + 1);
+            assert.strictEqual(
+                index.shouldInsertClosingBracket(lineText, lineNumber, charIndex),
+                scanShouldInsertClosingBracket(truncated, lineNumber, charIndex, languageId),
+                `Mismatch at ${lineNumber}:${charIndex}`
+            );
+        }
+    });
+}
+
+suite('BracketIndex', () => {
+    suite('shouldInsertClosingBracket', () => {
+        test('Unmatched brace - should insert', () => {
+            const lines = ['function test() {'];
+            const index = new BracketIndex(createDocument(lines));
+            assert.strictEqual(index.shouldInsertClosingBracket(lines[0], 0, 16), true);
+        });
+
+        test('Matched brace - should not insert', () => {
+            const lines = ['function test() {', '    return 1;', '}'];
+            const index = new BracketIndex(createDocument(lines));
+            assert.strictEqual(index.shouldInsertClosingBracket(lines[0], 0, 16), false);
+        });
+
+        test('Brace stealing closing from outer block - should insert', () => {
+            const lines = ['function outer() {', '    const inner = () => {', '}'];
+            const index = new BracketIndex(createDocument(lines));
+            assert.strictEqual(index.shouldInsertClosingBracket(lines[1], 1, 24), true);
+        });
+
+        test('Text after bracket on the same line is ignored', () => {
+            const lines = ['function test() {}'];
+            const index = new BracketIndex(createDocument(lines));
+            assert.strictEqual(index.shouldInsertClosingBracket(lines[0], 0, 16), true);
+        });
+
+        test('Bracket inside string - should not insert', () => {
+            const lines = ['const s = "{";'];
+            const index = new BracketIndex(createDocument(lines));
+            assert.strictEqual(index.shouldInsertClosingBracket(lines[0], 0, 11), false);
+        });
+
+        test('Closing brace inside block comment is ignored', () => {
+            const lines = ['if (x) {', '/*', '}', '*/'];
+            const index = new BracketIndex(createDocument(lines));
+            assert.strictEqual(index.shouldInsertClosingBracket(lines[0], 0, 7), true);
+        });
+
+        test('Several unmatched braces - should insert for each', () => {
+            const lines = ['class A {', '    method() {'];
+            const index = new BracketIndex(createDocument(lines));
+            assert.strictEqual(index.shouldInsertClosingBracket(lines[0], 0, 8), true);
+            assert.strictEqual(index.shouldInsertClosingBracket(lines[1], 1, 13), true);
+        });
+
+        test('Nested matched braces - should not insert', () => {
+            const lines = ['const obj = {', '    nested: {', '    }', '};'];
+            const index = new BracketIndex(createDocument(lines));
+            assert.strictEqual(index.shouldInsertClosingBracket(lines[0], 0, 12), false);
+            assert.strictEqual(index.shouldInsertClosingBracket(lines[1], 1, 12), false);
+        });
+
+        test('Brace closed by a line that also opens one - should not insert', () => {
+            const lines = ['try {', '    code;', '} catch (e) {', '}'];
+            const index = new BracketIndex(createDocument(lines));
+            assert.strictEqual(index.shouldInsertClosingBracket(lines[0], 0, 4), false);
+            assert.strictEqual(index.shouldInsertClosingBracket(lines[2], 2, 12), false);
+        });
+
+        test('Extra closing braces - should not insert', () => {
+            const lines = ['function test() {', '}', '}'];
+            const index = new BracketIndex(createDocument(lines));
+            assert.strictEqual(index.shouldInsertClosingBracket(lines[0], 0, 16), false);
+        });
+
+        test('Matched parenthesis - should not insert', () => {
+            const lines = ['foo(', '    1', ');'];
+            const index = new BracketIndex(createDocument(lines));
+            assert.strictEqual(index.shouldInsertClosingBracket(lines[0], 0, 3), false);
+        });
+
+        test('Closing brace inside string does not match', () => {
+            const lines = ['function test() {', '    const s = "}";'];
+            const index = new BracketIndex(createDocument(lines));
+            assert.strictEqual(index.shouldInsertClosingBracket(lines[0], 0, 16), true);
+        });
+
+        test('Opening brace inside line comment - should not insert', () => {
+            const lines = ['// {'];
+            const index = new BracketIndex(createDocument(lines));
+            assert.strictEqual(index.shouldInsertClosingBracket(lines[0], 0, 3), false);
+        });
+
+        test('Not an opening bracket - should not insert', () => {
+            const lines = ['function test() }'];
+            const index = new BracketIndex(createDocument(lines));
+            assert.strictEqual(index.shouldInsertClosingBracket(lines[0], 0, 16), false);
+        });
+
+        test('Position outside the document - should not insert', () => {
+            const lines = ['function test() {'];
+            const index = new BracketIndex(createDocument(lines));
+            assert.strictEqual(index.shouldInsertClosingBracket('{', 10, 0), false);
+            assert.strictEqual(index.shouldInsertClosingBracket(lines[0], 0, 100), false);
+        });
+
+        test('Matches full scan on a larger document', () => {
+            const lines: string[] = [];
+            for (let i = 0; i < 300; i++) {
+                lines.push(i % 3 === 0 ? `if (a${i}) {` : i % 3 === 1 ? `    call([${i}], "}");` : '}');
+            }
+            lines.push('function open() {');
+            const index = new BracketIndex(createDocument(lines));
+            assertMatchesFullScan(index, lines);
+        });
+    });
+
+    suite('findUnmatchedBracketsOnLine', () => {
+        test('Brackets closed on later lines are matched', () => {
+            const lines = ['foo(bar(() => {', '}));'];
+            const index = new BracketIndex(createDocument(lines));
+            assert.deepStrictEqual(index.findUnmatchedBracketsOnLine(lines[0], 0), []);
+        });
+
+        test('Later closers match innermost brackets first', () => {
+            const lines = ['foo(bar(x', ')'];
+            const index = new BracketIndex(createDocument(lines));
+            assert.deepStrictEqual(index.findUnmatchedBracketsOnLine(lines[0], 0), [{ char: 3, openChar: '(' }]);
+        });
+
+        test('Unmatched brackets of every kind - should be listed in order', () => {
+            const lines = ['foo([a, () => {'];
+            const index = new BracketIndex(createDocument(lines));
+            assert.deepStrictEqual(index.findUnmatchedBracketsOnLine(lines[0], 0), [
+                { char: 3, openChar: '(' },
+                { char: 4, openChar: '[' },
+                { char: 14, openChar: '{' }
+            ]);
+        });
+
+        test('Closer after two openers matches the inner one', () => {
+            const lines = ['function outer() {', '    function inner() {', '}'];
+            const index = new BracketIndex(createDocument(lines));
+            assert.strictEqual(isUnmatched(index, lines, 0, 17), true);
+            assert.strictEqual(isUnmatched(index, lines, 1, 21), false);
+        });
+
+        test('Brackets closed on the same line are matched', () => {
+            const lines = ['if (x) { code; }', 'const obj = { key: value };'];
+            const index = new BracketIndex(createDocument(lines));
+            assert.strictEqual(isUnmatched(index, lines, 0, 7), false);
+            assert.strictEqual(isUnmatched(index, lines, 1, 12), false);
+        });
+
+        test('Position outside the document - should be empty', () => {
+            const lines = ['function test() {'];
+            const index = new BracketIndex(createDocument(lines));
+            assert.strictEqual(isUnmatched(index, lines, 5, 0), false);
+            assert.strictEqual(isUnmatched(index, lines, -1, 0), false);
+        });
+
+        test('Matches full scan on a larger document', () => {
+            const lines: string[] = [];
+            for (let i = 0; i < 300; i++) {
+                lines.push(i % 3 === 0 ? `if (call(a${i}, [ {` : i % 3 === 1 ? `    ] // ${i})` : '}');
+            }
+            const index = new BracketIndex(createDocument(lines));
+            lines.forEach((lineText, lineNumber) => {
+                assert.deepStrictEqual(
+                    index.findUnmatchedBracketsOnLine(lineText, lineNumber),
+                    scanUnmatchedBracketsOnLine(lines, lineNumber, 'typescript'),
+                    `Mismatch at line ${lineNumber}`
+                );
+            });
+        });
+    });
+
+    suite('getOpenBracketCount', () => {
+        test('No brackets - should be 0', () => {
+            assert.strictEqual(countOpenBrackets(['const x = 1;']), 0);
+        });
+
+        test('Unmatched opening braces - should be counted', () => {
+            assert.strictEqual(countOpenBrackets(['function test() {']), 1);
+            assert.strictEqual(countOpenBrackets(['class A {', '    method() {', '        if (x) {']), 3);
+        });
+
+        test('Matched braces - should be 0', () => {
+            assert.strictEqual(countOpenBrackets(['function test() {', '    if (x) {', '    }', '}']), 0);
+        });
+
+        test('Extra closing braces - should be ignored', () => {
+            assert.strictEqual(countOpenBrackets(['function test() {', '}', '}']), 0);
+            assert.strictEqual(countOpenBrackets(['{ } } }']), 0);
+        });
+
+        test('Mixed matched and unmatched blocks', () => {
+            assert.strictEqual(countOpenBrackets(['if (a) {', '    for (b) {', '    }', '    while (c) {']), 2);
+            assert.strictEqual(countOpenBrackets(['if (a) {', '}', 'if (b) {']), 1);
+        });
+
+        test('Brackets on the same line', () => {
+            assert.strictEqual(countOpenBrackets(['const x = [{ key: (value) }];']), 0);
+            assert.strictEqual(countOpenBrackets(['{ { {']), 3);
+            assert.strictEqual(countOpenBrackets([`${'{'.repeat(50)}${'}'.repeat(50)}`]), 0);
+        });
+
+        test('Brackets of other kinds do not match each other', () => {
+            assert.strictEqual(countOpenBrackets(['const arr = [', '}']), 1);
+            assert.strictEqual(countOpenBrackets(['foo(bar(', '    1)']), 1);
+        });
+
+        test('Counts only lines before the given line', () => {
+            const lines = ['if (a) {', '    if (b) {', '    }', '}'];
+            const index = new BracketIndex(createDocument(lines));
+            assert.deepStrictEqual([0, 1, 2, 3, 4].map(line => index.getOpenBracketCount(line)), [0, 1, 2, 1, 0]);
+        });
+
+        test('Empty document - should be 0', () => {
+            assert.strictEqual(countOpenBrackets(['']), 0);
+        });
+
+        test('Brackets in strings and comments - should be ignored', () => {
+            assert.strictEqual(countOpenBrackets(['const str = "test { brace";']), 0);
+            assert.strictEqual(countOpenBrackets(["const str = '}';", 'function test() {']), 1);
+            assert.strictEqual(countOpenBrackets(['// This is a comment {']), 0);
+            assert.strictEqual(countOpenBrackets(['/* start {', '   } still comment */', 'if (x) {']), 1);
+        });
+
+        test('Escaped characters in strings', () => {
+            assert.strictEqual(countOpenBrackets(['const str = "\\{ \\}";']), 0);
+            assert.strictEqual(countOpenBrackets(['const str = "\\" {";']), 0);
+        });
+
+        test('Template literals - only substitutions are code', () => {
+            assert.strictEqual(countOpenBrackets(['const str = `template { } literal`;']), 0);
+            assert.strictEqual(countOpenBrackets(['const str = `', '    {', '`;']), 0);
+            assert.strictEqual(countOpenBrackets(['const str = `${fn(() => {`;']), 2);
+        });
+
+        test('Regex literals - should be ignored', () => {
+            assert.strictEqual(countOpenBrackets(['const regex = /}/;', 'function test() {'], 'javascript'), 1);
+            assert.strictEqual(countOpenBrackets(['const x = a / b; if (x) { y = c / d; }'], 'javascript'), 0);
+        });
+
+        test('Hash comment in Python - should be ignored', () => {
+            assert.strictEqual(countOpenBrackets(['x = 1  # {', 'd = {'], 'python'), 1);
+        });
+
+        test('JSX-like syntax', () => {
+            const lines = [
+                'function Component() {',
+                '    return (',
+                '        <div>',
+                '            { data.map(item => {',
+                '                return <span>{item}</span>;',
+                '            })}',
+                '        </div>',
+                '    );',
+                '}'
+            ];
+            assert.strictEqual(countOpenBrackets(lines), 0);
+        });
+    });
+
+    suite('findCodeEnd', () => {
+        test('Ignores trailing comment', () => {
+            const lines = ['foo(a)   // done'];
+            const index = new BracketIndex(createDocument(lines));
+            assert.strictEqual(index.findCodeEnd(lines[0], 0), 6);
+        });
+
+        test('Starts inside block comment opened on previous line', () => {
+            const lines = ['/* start', 'end */ x = 1'];
+            const index = new BracketIndex(createDocument(lines));
+            assert.strictEqual(index.findCodeEnd(lines[1], 1), 12);
+        });
+    });
+
+    suite('getScannerState', () => {
+        test('Position inside block comment opened on previous line', () => {
+            const lines = ['/**', ' * text', ' */'];
+            const index = new BracketIndex(createDocument(lines));
+            assert.strictEqual(index.getScannerState(lines[1], 1, 4).mode, 'blockComment');
+        });
+
+        test('Position after comment end is code', () => {
+            const lines = ['/** doc */ const x = 1;'];
+            const index = new BracketIndex(createDocument(lines));
+            assert.strictEqual(index.getScannerState(lines[0], 0, 12).mode, 'code');
+        });
+    });
+
+    suite('applyChanges', () => {
+        test('Inserting lines keeps index in sync', () => {
+            const lines = ['function a() {', '}', 'function b() {', '}'];
+            const index = new BracketIndex(createDocument(lines));
+
+            const change = replaceLines(lines, 1, 1, '    if (x) {\n}');
+            index.applyChanges(createDocument(lines, 'typescript', 2), [change]);
+
+            assert.strictEqual(index.lineCount, 5);
+            assertMatchesFullScan(index, lines);
+        });
+
+        test('Removing lines keeps index in sync', () => {
+            const lines = ['function a() {', '    if (x) {', '    }', '}'];
+            const index = new BracketIndex(createDocument(lines));
+
+            const change = replaceLines(lines, 1, 2, '');
+            index.applyChanges(createDocument(lines, 'typescript', 2), [change]);
+
+            assert.strictEqual(index.lineCount, 3);
+            assertMatchesFullScan(index, lines);
+        });
+
+        test('Opening a block comment rescans following lines', () => {
+            const lines = ['if (x) {', 'code', '}'];
+            const index = new BracketIndex(createDocument(lines));
+
+            const change = replaceLines(lines, 1, 1, '/* code');
+            index.applyChanges(createDocument(lines, 'typescript', 2), [change]);
+
+            assert.strictEqual(index.shouldInsertClosingBracket(lines[0], 0, 7), true);
+            assertMatchesFullScan(index, lines);
+        });
+
+        test('Multiple changes in one event', () => {
+            const lines: string[] = [];
+            for (let i = 0; i < 400; i++) {
+                lines.push(i % 2 === 0 ? 'if (x) {' : '}');
+            }
+            const index = new BracketIndex(createDocument(lines));
+
+            // Changes are reported against the document before the edit; apply bottom-up
+            const lower = replaceLines(lines, 350, 350, '}\n}\n}');
+            const upper = replaceLines(lines, 10, 11, 'while (y) {');
+            index.applyChanges(createDocument(lines, 'typescript', 2), [upper, lower]);
+
+            assert.strictEqual(index.lineCount, lines.length);
+            assertMatchesFullScan(index, lines);
+        });
+
+        test('Many edits across chunk boundaries', () => {
+            const lines: string[] = [];
+            for (let i = 0; i < 160; i++) {
+                lines.push(`item(${i}) {`);
+                lines.push('}');
+            }
+            const index = new BracketIndex(createDocument(lines));
+
+            let version = 1;
+            for (let step = 0; step < 25; step++) {
+                const start = (step * 97) % (lines.length - 3);
+                const text = step % 2 === 0 ? 'x = [\n]\n{' : '';
+                const change = replaceLines(lines, start, start + 2, text);
+                index.applyChanges(createDocument(lines, 'typescript', ++version), [change]);
+            }
+
+            assert.strictEqual(index.lineCount, lines.length);
+            assertMatchesFullScan(index, lines);
+        });
+
+        test('Growing and shrinking the document resizes chunks', () => {
+            const lines = ['function main() {', '}'];
+            const index = new BracketIndex(createDocument(lines));
+            const block = Array.from({ length: 200 }, (_, i) => i % 10 === 0 ? 'if (x) {' : i % 10 === 9 ? '}' : 'x++;');
+
+            // Insert well past the point where chunks outgrow their initial size
+            let version = 1;
+            for (let step = 0; step < 10; step++) {
+                const change = replaceLines(lines, 1, 1, `${block.join('\n')}\n}`);
+                index.applyChanges(createDocument(lines, 'typescript', ++version), [change]);
+            }
+            assert.strictEqual(index.lineCount, lines.length);
+            assertMatchesFullScan(index, lines);
+
+            const change = replaceLines(lines, 1, lines.length - 3, '');
+            index.applyChanges(createDocument(lines, 'typescript', ++version), [change]);
+
+            assert.strictEqual(index.lineCount, lines.length);
+            assertMatchesFullScan(index, lines);
+        });
+    });
+});
@@ -0,0 +1,135 @@
+import * as assert from 'assert';
+import { CompleteStatementHandler } from '../handlers/completeStatementHandler';
+import { createEditorWithCursor } from './helpers/editorTestUtils';
+
+suite('CompleteStatementHandler', () => {
+    let handler: CompleteStatementHandler;
+
+    setup(() => {
+        handler = new CompleteStatementHandler();
+    });
+
+    suite('Simple statements', () => {
+        test('Unclosed call - should close parenthesis and add semicolon', async () => {
+            const content = 'foo(a, b⌘';
+            const editor = await createEditorWithCursor(content);
+            await handler.execute(editor);
+
+            const lines = editor.document.getText().split(/\r?\n/);
+
+            assert.deepStrictEqual(lines, ['foo(a, b);', '']);
+            assert.strictEqual(editor.selection.active.line, 1);
+            assert.strictEqual(editor.selection.active.character, 0);
+        });
+
+        test('Cursor in middle of line - should complete whole line', async () => {
+            const content = '    const x = ⌘compute([1, 2';
+            const editor = await createEditorWithCursor(content);
+            await handler.execute(editor);
+
+            const lines = editor.document.getText().split(/\r?\n/);
+
+            assert.deepStrictEqual(lines, ['    const x = compute([1, 2]);', '    ']);
+            assert.strictEqual(editor.selection.active.line, 1);
+            assert.strictEqual(editor.selection.active.character, 4);
+        });
+
+        test('Complete statement - should only move to next line', async () => {
+            const content = '    return x;⌘\n}';
+            const editor = await createEditorWithCursor(content);
+            await handler.execute(editor);
+
+            const lines = editor.document.getText().split(/\r?\n/);
+
+            assert.deepStrictEqual(lines, ['    return x;', '    ', '}']);
+        });
+
+        test('Trailing comment - should complete code before comment', async () => {
+            const content = '    call(a⌘ // note';
+            const editor = await createEditorWithCursor(content);
+            await handler.execute(editor);
+
+            const lines = editor.document.getText().split(/\r?\n/);
+
+            assert.deepStrictEqual(lines, ['    call(a); // note', '    ']);
+        });
+
+        test('Parenthesis closed on later line - should not close again', async () => {
+            const content = 'foo(a,⌘\n    b);';
+            const editor = await createEditorWithCursor(content);
+            await handler.execute(editor);
+
+            const lines = editor.document.getText().split(/\r?\n/);
+
+            assert.deepStrictEqual(lines, ['foo(a,', '', '    b);']);
+        });
+
+        test('Language without terminator - should not add semicolon', async () => {
+            const content = 'x := compute(1⌘';
+            const editor = await createEditorWithCursor(content, 'go');
+            await handler.execute(editor);
+
+            const lines = editor.document.getText().split(/\r?\n/);
+
+            assert.deepStrictEqual(lines, ['x := compute(1)', '']);
+        });
+    });
+
+    suite('Block statements', () => {
+        test('Unclosed condition - should close it and open block', async () => {
+            const content = 'if (ready⌘';
+            const editor = await createEditorWithCursor(content);
+            await handler.execute(editor);
+
+            const lines = editor.document.getText().split(/\r?\n/);
+
+            assert.deepStrictEqual(lines, ['if (ready) {', '    ', '}']);
+            assert.strictEqual(editor.selection.active.line, 1);
+            assert.strictEqual(editor.selection.active.character, 4);
+        });
+
+        test('Keyword-only header - should open block', async () => {
+            const content = '} else⌘';
+            const editor = await createEditorWithCursor(content);
+            await handler.execute(editor);
+
+            const lines = editor.document.getText().split(/\r?\n/);
+
+            assert.deepStrictEqual(lines, ['} else {', '    ', '}']);
+        });
+
+        test('Trailing brace - should expand block', async () => {
+            const content = 'function ⌘test() {';
+            const editor = await createEditorWithCursor(content);
+            await handler.execute(editor);
+
+            const lines = editor.document.getText().split(/\r?\n/);
+
+            assert.deepStrictEqual(lines, ['function test() {', '    ', '}']);
+            assert.strictEqual(editor.selection.active.line, 1);
+            assert.strictEqual(editor.selection.active.character, 4);
+        });
+
+        test('Trailing brace inside call - should close call after block', async () => {
+            const content = 'items.forEach(item => {⌘';
+            const editor = await createEditorWithCursor(content);
+            await handler.execute(editor);
+
+            const lines = editor.document.getText().split(/\r?\n/);
+
+            assert.deepStrictEqual(lines, ['items.forEach(item => {', '    ', '});']);
+        });
+
+        test('Python header - should add colon and indent next line', async () => {
+            const content = 'if ready⌘';
+            const editor = await createEditorWithCursor(content, 'python');
+            await handler.execute(editor);
+
+            const lines = editor.document.getText().split(/\r?\n/);
+
+            assert.deepStrictEqual(lines, ['if ready:', '    ']);
+            assert.strictEqual(editor.selection.active.line, 1);
+            assert.strictEqual(editor.selection.active.character, 4);
+        });
+    });
+});
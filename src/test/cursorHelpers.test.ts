@@ -1,5 +1,6 @@
 import * as assert from 'assert';
-import { isInIndentZone, getFirstNonWhitespaceIndex } from '../utils/cursorHelpers';
+import * as vscode from 'vscode';
+import { isInIndentZone, getFirstNonWhitespaceIndex, mapPositionThroughEdits } from '../utils/cursorHelpers';
 
 suite('CursorHelpers', () => {
     suite('isInIndentZone', () => {
@@ -307,4 +308,50 @@ suite('CursorHelpers', () => {
             assert.strictEqual(getFirstNonWhitespaceIndex(lineText), 4);
         });
     });
+    
+    suite('mapPositionThroughEdits', () => {
+        const edit = (startLine: number, startChar: number, endLine: number, endChar: number, text: string) => ({
+            range: new vscode.Range(startLine, startChar, endLine, endChar),
+            text
+        });
+        
+        test('Position before edit - unchanged', () => {
+            const result = mapPositionThroughEdits(new vscode.Position(0, 2), [edit(1, 0, 2, 0, '')]);
+            assert.strictEqual(result.line, 0);
+            assert.strictEqual(result.character, 2);
+        });
+        
+        test('Position after removed line - shifts up', () => {
+            const result = mapPositionThroughEdits(new vscode.Position(3, 4), [edit(1, 0, 2, 0, '')]);
+            assert.strictEqual(result.line, 2);
+            assert.strictEqual(result.character, 4);
+        });
+        
+        test('Position at end of replaced range - moves to end of new text', () => {
+            const result = mapPositionThroughEdits(new vscode.Position(1, 8), [edit(1, 0, 1, 8, '    ')]);
+            assert.strictEqual(result.line, 1);
+            assert.strictEqual(result.character, 4);
+        });
+        
+        test('Position inside replaced range - moves to its start', () => {
+            const result = mapPositionThroughEdits(new vscode.Position(1, 3), [edit(0, 5, 2, 0, '')]);
+            assert.strictEqual(result.line, 0);
+            assert.strictEqual(result.character, 5);
+        });
+        
+        test('Position on joined line - shifts by joined text', () => {
+            const result = mapPositionThroughEdits(new vscode.Position(1, 6), [edit(0, 3, 1, 4, '')]);
+            assert.strictEqual(result.line, 0);
+            assert.strictEqual(result.character, 5);
+        });
+        
+        test('Multiple edits - applies all of them', () => {
+            const result = mapPositionThroughEdits(new vscode.Position(4, 1), [
+                edit(0, 0, 1, 0, ''),
+                edit(2, 0, 2, 0, 'a\nb\n')
+            ]);
+            assert.strictEqual(result.line, 5);
+            assert.strictEqual(result.character, 1);
+        });
+    });
 });
@@ -4,6 +4,7 @@ import {
     findPreviousNonEmptyLine, 
     shouldIncreaseIndent, 
     calculateIndent,
+    decreaseIndent,
     getIndentFromLine,
     getIndentUnit
 } from '../utils/indentHelpers';
@@ -11,10 +12,10 @@ import {
 /**
  * Create a mock text editor
  */
-async function createMockEditor(content: string): Promise<vscode.TextEditor> {
+async function createMockEditor(content: string, language: string = 'typescript'): Promise<vscode.TextEditor> {
     const document = await vscode.workspace.openTextDocument({
         content: content,
-        language: 'typescript'
+        language
     });
     
     const editor = await vscode.window.showTextDocument(document);
@@ -320,6 +321,127 @@ suite('IndentHelpers', () => {
             
             assert.ok(indent.length >= 4);
         });
+        
+        test('After Python dict key - should maintain indent', async () => {
+            const editor = await createMockEditor('data = {\n    "key":\n', 'python');
+            const indent = calculateIndent(editor, editor.document, 2);
+            
+            assert.strictEqual(indent, '    ');
+        });
+        
+        test('After Python block header - should increase indent', async () => {
+            const editor = await createMockEditor('def test():\n', 'python');
+            const indent = calculateIndent(editor, editor.document, 1);
+            
+            assert.ok(indent.length === 4 || indent === '\t');
+        });
+        
+        test('After Ruby do block - should increase indent', async () => {
+            const editor = await createMockEditor('items.each do |item|\n', 'ruby');
+            const indent = calculateIndent(editor, editor.document, 1);
+            
+            assert.ok(indent.length === 4 || indent === '\t');
+        });
+        
+        test('Closing brace on current line - should dedent', async () => {
+            const editor = await createMockEditor('function test() {\n    code();\n}');
+            const indent = calculateIndent(editor, editor.document, 2);
+            
+            assert.strictEqual(indent, '');
+        });
+        
+        test('Closing brace right after opening - should keep indent', async () => {
+            const editor = await createMockEditor('    if (x) {\n    }');
+            const indent = calculateIndent(editor, editor.document, 1);
+            
+            assert.strictEqual(indent, '    ');
+        });
+        
+        test('Closing HTML tag - should dedent', async () => {
+            const editor = await createMockEditor('<div>\n    <span />\n</div>', 'html');
+            const indent = calculateIndent(editor, editor.document, 2);
+            
+            assert.strictEqual(indent, '');
+        });
+        
+        test('After Python return - should dedent', async () => {
+            const editor = await createMockEditor('def test():\n    if x:\n        return 1\n', 'python');
+            const indent = calculateIndent(editor, editor.document, 3);
+            
+            assert.strictEqual(indent, '    ');
+        });
+        
+        test('Python else after return - should dedent only once', async () => {
+            const editor = await createMockEditor('def test():\n    if x:\n        return 1\n    else:', 'python');
+            const indent = calculateIndent(editor, editor.document, 3);
+            
+            assert.strictEqual(indent, '    ');
+        });
+        
+        test('After shell then - should increase indent', async () => {
+            const editor = await createMockEditor('if [ -f x ]; then\n', 'shellscript');
+            const indent = calculateIndent(editor, editor.document, 1);
+            
+            assert.ok(indent.length === 4 || indent === '\t');
+        });
+        
+        suite('User-defined rules', () => {
+            setup(async () => {
+                await vscode.workspace
+                    .getConfiguration('smart-keys')
+                    .update('indentationRules', {
+                        plaintext: { increaseIndentPattern: '\\bbegin$', decreaseIndentPattern: '^\\s*finish\\b' }
+                    }, vscode.ConfigurationTarget.Global);
+            });
+            
+            teardown(async () => {
+                await vscode.workspace
+                    .getConfiguration('smart-keys')
+                    .update('indentationRules', undefined, vscode.ConfigurationTarget.Global);
+            });
+            
+            test('Line matching decrease pattern - should dedent', async () => {
+                const editor = await createMockEditor('begin\n    work\nfinish', 'plaintext');
+                const indent = calculateIndent(editor, editor.document, 2);
+                
+                assert.strictEqual(indent, '');
+            });
+            
+            test('Closing brace not matching decrease pattern - should keep indent', async () => {
+                const editor = await createMockEditor('begin\n    work\n}', 'plaintext');
+                const indent = calculateIndent(editor, editor.document, 2);
+                
+                assert.strictEqual(indent, '    ');
+            });
+        });
+    });
+    
+    suite('decreaseIndent', () => {
+        test('Spaces - should remove one tab size', async () => {
+            const editor = await createMockEditor('');
+            editor.options = { ...editor.options, tabSize: 4, insertSpaces: true };
+            
+            assert.strictEqual(decreaseIndent('        ', editor), '    ');
+        });
+        
+        test('Partial indent - should remove remaining spaces', async () => {
+            const editor = await createMockEditor('');
+            editor.options = { ...editor.options, tabSize: 4, insertSpaces: true };
+            
+            assert.strictEqual(decreaseIndent('\t  ', editor), '\t');
+        });
+        
+        test('Tabs - should remove one tab', async () => {
+            const editor = await createMockEditor('');
+            
+            assert.strictEqual(decreaseIndent('\t\t', editor), '\t');
+        });
+        
+        test('Empty indent - should stay empty', async () => {
+            const editor = await createMockEditor('');
+            
+            assert.strictEqual(decreaseIndent('', editor), '');
+        });
     });
     
     suite('getIndentFromLine', () => {
@@ -0,0 +1,85 @@
+import * as assert from 'assert';
+import { getIndentationRules } from '../utils/indentRules';
+
+suite('IndentRules', () => {
+    suite('getIndentationRules', () => {
+        test('Unknown language - should use generic bracket rules', () => {
+            const rules = getIndentationRules('unknown-language');
+            assert.ok(rules.increaseIndentPattern.test('if (x) {'));
+            assert.ok(rules.increaseIndentPattern.test('case 1:'));
+            assert.strictEqual(rules.indentHtmlTags, true);
+        });
+
+        test('Python - colon increases only after block headers', () => {
+            const rules = getIndentationRules('python');
+            assert.ok(rules.increaseIndentPattern.test('def test(a, b):'));
+            assert.ok(rules.increaseIndentPattern.test('else:  # fallback'));
+            assert.ok(!rules.increaseIndentPattern.test('"key":'));
+        });
+
+        test('Ruby - do blocks increase, one-liners do not', () => {
+            const rules = getIndentationRules('ruby');
+            assert.ok(rules.increaseIndentPattern.test('items.each do |item|'));
+            assert.ok(rules.increaseIndentPattern.test('def test'));
+            assert.ok(!rules.increaseIndentPattern.test('def test; end'));
+        });
+
+        test('Lua - then and do increase', () => {
+            const rules = getIndentationRules('lua');
+            assert.ok(rules.increaseIndentPattern.test('if x then'));
+            assert.ok(rules.increaseIndentPattern.test('for i = 1, 10 do'));
+            assert.ok(!rules.increaseIndentPattern.test('local x = 1'));
+        });
+
+        test('Shell - then and do increase', () => {
+            const rules = getIndentationRules('shellscript');
+            assert.ok(rules.increaseIndentPattern.test('if [ -f x ]; then'));
+            assert.ok(rules.increaseIndentPattern.test('for f in *; do'));
+            assert.ok(rules.decreaseIndentPattern?.test('fi'));
+        });
+
+        test('User rules - should override built-in patterns', () => {
+            const rules = getIndentationRules('ruby', {
+                ruby: { increaseIndentPattern: '\\bbegin$' }
+            });
+            assert.ok(rules.increaseIndentPattern.test('x = begin'));
+            assert.ok(!rules.increaseIndentPattern.test('items.each do'));
+            assert.ok(rules.decreaseIndentPattern?.test('end'));
+        });
+
+        test('User rules - should ignore invalid patterns', () => {
+            const rules = getIndentationRules('python', {
+                python: { increaseIndentPattern: '(' }
+            });
+            assert.strictEqual(rules.increaseIndentPattern, getIndentationRules('python').increaseIndentPattern);
+        });
+
+        test('User rules for other languages - should not apply', () => {
+            const rules = getIndentationRules('typescript', {
+                ruby: { increaseIndentPattern: 'x' }
+            });
+            assert.strictEqual(rules, getIndentationRules('typescript'));
+        });
+
+        test('Language configuration - should override built-in patterns', () => {
+            const rules = getIndentationRules('python', {}, {
+                increaseIndentPattern: /:$/
+            });
+            assert.ok(rules.increaseIndentPattern.test('foo:'));
+            assert.ok(!rules.increaseIndentPattern.test('items = ['));
+            assert.ok(rules.dedentAfterPattern?.test('return x'));
+        });
+
+        test('Language configuration - should yield to user rules', () => {
+            const rules = getIndentationRules('ruby', {
+                ruby: { increaseIndentPattern: '\\bbegin$' }
+            }, {
+                increaseIndentPattern: /\bdo$/,
+                decreaseIndentPattern: /^\s*done\b/
+            });
+            assert.ok(rules.increaseIndentPattern.test('x = begin'));
+            assert.ok(!rules.increaseIndentPattern.test('items.each do'));
+            assert.ok(rules.decreaseIndentPattern?.test('done'));
+        });
+    });
+});
@@ -0,0 +1,158 @@
+import * as assert from 'assert';
+import { getJsonContainerAt, JsonDocumentScan, scanJsonLines } from '../utils/jsonScanner';
+
+/**
+ * Comma position reported for a line of the given JSON text.
+ */
+function commaPositionAt(text: string, line: number): number {
+    return scanJsonLines(text.split('\n'))[line].commaPosition;
+}
+
+suite('JsonScanner', () => {
+    suite('Objects', () => {
+        test('Property value without comma - needs comma after value', () => {
+            assert.strictEqual(commaPositionAt('{\n  "a": 1\n}', 1), 8);
+        });
+
+        test('Property value with comma - needs no comma', () => {
+            assert.strictEqual(commaPositionAt('{\n  "a": 1,\n}', 1), -1);
+        });
+
+        test('Key without colon - needs no comma', () => {
+            assert.strictEqual(commaPositionAt('{\n  "a"\n}', 1), -1);
+        });
+
+        test('Key and colon without value - needs no comma', () => {
+            assert.strictEqual(commaPositionAt('{\n  "a":\n}', 1), -1);
+        });
+
+        test('Opening brace - needs no comma', () => {
+            assert.strictEqual(commaPositionAt('{\n  "a": {\n}', 1), -1);
+        });
+
+        test('Nested object closed on its own line - needs comma', () => {
+            assert.strictEqual(commaPositionAt('{\n  "a": {\n    "b": 1\n  }\n}', 3), 3);
+        });
+
+        test('Outermost closing brace - needs no comma', () => {
+            assert.strictEqual(commaPositionAt('{\n  "a": 1\n}', 2), -1);
+        });
+
+        test('Several properties on one line - needs comma after last', () => {
+            assert.strictEqual(commaPositionAt('{\n  "a": 1, "b": true\n}', 1), 19);
+        });
+
+        test('Missing comma between properties - next line still starts a key', () => {
+            const lines = scanJsonLines('{\n  "a": 1\n  "b": 2\n}'.split('\n'));
+            assert.strictEqual(lines[1].commaPosition, 8);
+            assert.strictEqual(lines[2].commaPosition, 8);
+        });
+    });
+
+    suite('Arrays', () => {
+        test('String item - needs comma', () => {
+            assert.strictEqual(commaPositionAt('[\n  "a"\n]', 1), 5);
+        });
+
+        test('Number item - needs comma', () => {
+            assert.strictEqual(commaPositionAt('[\n  12\n]', 1), 4);
+        });
+
+        test('Literal item - needs comma', () => {
+            assert.strictEqual(commaPositionAt('[\n  null\n]', 1), 6);
+        });
+
+        test('Nested array closed on its own line - needs comma', () => {
+            assert.strictEqual(commaPositionAt('[\n  [\n    1\n  ]\n]', 3), 3);
+        });
+
+        test('Item with comma - needs no comma', () => {
+            assert.strictEqual(commaPositionAt('[\n  1,\n]', 1), -1);
+        });
+    });
+
+    suite('Strings and comments', () => {
+        test('Closing brace inside string - is not structure', () => {
+            assert.strictEqual(commaPositionAt('{\n  "a": "x}"\n}', 1), 11);
+        });
+
+        test('Comma inside string - is not a separator', () => {
+            assert.strictEqual(commaPositionAt('{\n  "a": "x,"\n}', 1), 11);
+        });
+
+        test('Trailing line comment - comma goes before comment', () => {
+            assert.strictEqual(commaPositionAt('{\n  "a": 1 // note\n}', 1), 8);
+        });
+
+        test('Line inside block comment - needs no comma', () => {
+            const lines = scanJsonLines('{\n  /*\n  "a": 1\n  */\n}'.split('\n'));
+            assert.strictEqual(lines[2].commaPosition, -1);
+            assert.strictEqual(lines[2].hasCode, false);
+        });
+
+        test('Comment-only line - has no code', () => {
+            const lines = scanJsonLines('{\n  "a": 1\n  // note\n}'.split('\n'));
+            assert.strictEqual(lines[1].hasCode, true);
+            assert.strictEqual(lines[2].hasCode, false);
+        });
+    });
+
+    suite('getJsonContainerAt', () => {
+        test('Nested object - should report path and member types', () => {
+            const lines = '{\n  "a": {\n    "x": "1",\n    \n    "y": "2"\n  }\n}'.split('\n');
+            const container = getJsonContainerAt(lines, 3, 4);
+
+            assert.strictEqual(container?.kind, 'object');
+            assert.deepStrictEqual(container?.path, ['a']);
+            assert.deepStrictEqual(container?.memberTypes, ['string']);
+        });
+
+        test('Object inside array - should include array index', () => {
+            const lines = '{\n  "list": [\n    {},\n    { "b": 1, \n  ]\n}'.split('\n');
+            const container = getJsonContainerAt(lines, 3, 14);
+
+            assert.deepStrictEqual(container?.path, ['list', 1]);
+            assert.deepStrictEqual(container?.memberTypes, ['number']);
+        });
+
+        test('Mixed member types - should list each value type', () => {
+            const lines = '{ "a": true, "b": null, "c": [], "d": {}, "e": 2 }'.split('\n');
+            const container = getJsonContainerAt(lines, 0, 1);
+
+            assert.deepStrictEqual(container?.memberTypes, ['boolean', 'null', 'array', 'object', 'number']);
+        });
+
+        test('Top level - should have no container', () => {
+            assert.strictEqual(getJsonContainerAt(['{}'], 0, 0), null);
+        });
+    });
+
+    suite('Scan range', () => {
+        test('Last line limits result', () => {
+            assert.strictEqual(scanJsonLines('{\n  "a": 1\n}'.split('\n'), 1).length, 2);
+        });
+    });
+
+    suite('JsonDocumentScan', () => {
+        test('Edits invalidating later lines - should match a fresh scan', () => {
+            const lines = ['{', '  "list": ['];
+            for (let i = 0; i < 200; i++) {
+                lines.push(`    { "id": ${i} },`);
+            }
+            lines.push('  ]', '}');
+            const document = { get lineCount() { return lines.length; }, lineAt: (line: number) => ({ text: lines[line] }) };
+            const scan = new JsonDocumentScan();
+            scan.getLineInfos(document, lines.length - 1);
+
+            // Open a block comment in the middle, then drop a comma near the end
+            lines.splice(100, 1, '    /* { "id": 98 },');
+            lines.splice(102, 0, '    */');
+            scan.invalidateFrom(100);
+            lines[180] = lines[180].replace('},', '}');
+            scan.invalidateFrom(180);
+
+            assert.deepStrictEqual(scan.getLineInfos(document, lines.length - 1), scanJsonLines(lines));
+            assert.deepStrictEqual(scan.getContainerAt(document, 150, 6), getJsonContainerAt(lines, 150, 6));
+        });
+    });
+});
@@ -0,0 +1,121 @@
+import * as assert from 'assert';
+import { getSchemaValueType, JsonSchema, lookupSchemaProperty } from '../utils/jsonSchema';
+
+const SCHEMA: JsonSchema = {
+    type: 'object',
+    properties: {
+        name: { type: 'string' },
+        port: { type: 'integer' },
+        tags: { type: 'array', items: { type: 'string' } },
+        server: { $ref: '#/definitions/server' },
+        mode: { enum: ['fast', 'slow'] },
+        value: { type: ['string', 'number'] },
+        either: { anyOf: [{ type: 'string' }, { type: 'boolean' }] },
+        open: { properties: { size: { type: 'number' } } }
+    },
+    patternProperties: {
+        '^x-': { type: 'object' }
+    },
+    additionalProperties: false,
+    definitions: {
+        server: {
+            properties: {
+                host: { type: 'string' }
+            },
+            additionalProperties: { type: 'boolean' }
+        }
+    }
+};
+
+suite('JsonSchema', () => {
+    suite('getSchemaValueType', () => {
+        test('Declared type - should be returned', () => {
+            assert.strictEqual(getSchemaValueType(SCHEMA, ['name']), 'string');
+            assert.strictEqual(getSchemaValueType(SCHEMA, ['tags']), 'array');
+        });
+
+        test('Integer - should be a number', () => {
+            assert.strictEqual(getSchemaValueType(SCHEMA, ['port']), 'number');
+        });
+
+        test('Array items - should be resolved by index', () => {
+            assert.strictEqual(getSchemaValueType(SCHEMA, ['tags', 0]), 'string');
+        });
+
+        test('Local reference - should be followed', () => {
+            assert.strictEqual(getSchemaValueType(SCHEMA, ['server']), 'object');
+            assert.strictEqual(getSchemaValueType(SCHEMA, ['server', 'host']), 'string');
+        });
+
+        test('Additional properties - should describe unknown names', () => {
+            assert.strictEqual(getSchemaValueType(SCHEMA, ['server', 'enabled']), 'boolean');
+        });
+
+        test('Pattern properties - should match names', () => {
+            assert.strictEqual(getSchemaValueType(SCHEMA, ['x-extra']), 'object');
+        });
+
+        test('Enum values - should imply the type', () => {
+            assert.strictEqual(getSchemaValueType(SCHEMA, ['mode']), 'string');
+        });
+
+        test('Several allowed types - should be unknown', () => {
+            assert.strictEqual(getSchemaValueType(SCHEMA, ['value']), null);
+            assert.strictEqual(getSchemaValueType(SCHEMA, ['either']), null);
+        });
+
+        test('Undescribed property - should be unknown', () => {
+            assert.strictEqual(getSchemaValueType(SCHEMA, ['missing']), null);
+        });
+    });
+
+    suite('lookupSchemaProperty', () => {
+        test('Declared property - should be known', () => {
+            assert.deepStrictEqual(lookupSchemaProperty(SCHEMA, [], 'port'), { kind: 'known', name: 'port' });
+        });
+
+        test('Case mismatch - should resolve to declared name', () => {
+            assert.deepStrictEqual(lookupSchemaProperty(SCHEMA, [], 'PORT'), { kind: 'known', name: 'port' });
+        });
+
+        test('Pattern property - should be known', () => {
+            assert.deepStrictEqual(lookupSchemaProperty(SCHEMA, [], 'x-y'), { kind: 'known', name: 'x-y' });
+        });
+
+        test('Undeclared property - should be unknown', () => {
+            assert.deepStrictEqual(lookupSchemaProperty(SCHEMA, [], 'other'), { kind: 'unknown' });
+        });
+
+        test('Additional properties allowed - any name should be known', () => {
+            assert.deepStrictEqual(lookupSchemaProperty(SCHEMA, ['server'], 'other'), { kind: 'known', name: 'other' });
+        });
+
+        test('Additional properties allowed - case mismatch should resolve to declared name', () => {
+            assert.deepStrictEqual(lookupSchemaProperty(SCHEMA, ['server'], 'HOST'), { kind: 'known', name: 'host' });
+        });
+
+        test('No additionalProperties keyword - case mismatch should resolve to declared name', () => {
+            assert.deepStrictEqual(lookupSchemaProperty(SCHEMA, ['open'], 'SIZE'), { kind: 'known', name: 'size' });
+        });
+
+        test('No additionalProperties keyword - undeclared name should be unknown', () => {
+            assert.deepStrictEqual(lookupSchemaProperty(SCHEMA, ['open'], 'other'), { kind: 'unknown' });
+        });
+
+        test('Restricted object behind a reference - undeclared name should be unknown', () => {
+            const schema: JsonSchema = {
+                $ref: '#/definitions/closed',
+                definitions: { closed: { properties: { a: {} }, additionalProperties: false } }
+            };
+            assert.deepStrictEqual(lookupSchemaProperty(schema, [], 'b'), { kind: 'unknown' });
+        });
+
+        test('$schema at top level - should be known', () => {
+            assert.deepStrictEqual(lookupSchemaProperty(SCHEMA, [], '$schema'), { kind: 'known', name: '$schema' });
+        });
+
+        test('Object without declared properties - should be undescribed', () => {
+            assert.deepStrictEqual(lookupSchemaProperty(SCHEMA, ['name'], 'a'), { kind: 'undescribed' });
+        });
+    });
+});
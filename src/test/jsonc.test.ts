@@ -0,0 +1,16 @@
+import * as assert from 'assert';
+import { parseJsonc } from '../utils/jsonc';
+
+suite('Jsonc', () => {
+    suite('parseJsonc', () => {
+        test('Comments and trailing commas - should be ignored', () => {
+            const value = parseJsonc('{\n  // comment\n  "a": [1, 2,], /* block */\n  "b": "x",\n}');
+            assert.deepStrictEqual(value, { a: [1, 2], b: 'x' });
+        });
+
+        test('Comment markers inside strings - should be kept', () => {
+            const value = parseJsonc('{ "pattern": "^\\\\s*//.*,]", "b": "/* x */" }');
+            assert.deepStrictEqual(value, { pattern: '^\\s*//.*,]', b: '/* x */' });
+        });
+    });
+});
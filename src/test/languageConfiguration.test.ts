@@ -0,0 +1,44 @@
+import * as assert from 'assert';
+import {
+    clearLanguageConfigurationCache,
+    getLanguageConfigurationRules,
+    loadLanguageConfigurations
+} from '../utils/languageConfiguration';
+
+suite('LanguageConfiguration', () => {
+    suite('getLanguageConfigurationRules', () => {
+        suiteSetup(async () => {
+            await loadLanguageConfigurations();
+        });
+
+        teardown(async () => {
+            await loadLanguageConfigurations();
+        });
+
+        test('TypeScript - should load rules from the built-in extension', () => {
+            const rules = getLanguageConfigurationRules('typescript');
+            assert.ok(rules?.increaseIndentPattern?.test('function foo() {'));
+            assert.ok(rules?.decreaseIndentPattern?.test('}'));
+        });
+
+        test('Unknown language - should have no rules', () => {
+            assert.strictEqual(getLanguageConfigurationRules('no-such-language'), undefined);
+        });
+
+        test('Cleared cache - should have no rules until loaded again', async () => {
+            clearLanguageConfigurationCache();
+            assert.strictEqual(getLanguageConfigurationRules('typescript'), undefined);
+
+            await loadLanguageConfigurations();
+            assert.ok(getLanguageConfigurationRules('typescript'));
+        });
+
+        test('Cache cleared while loading - should drop the stale result', async () => {
+            const staleLoad = loadLanguageConfigurations();
+            clearLanguageConfigurationCache();
+            await staleLoad;
+
+            assert.strictEqual(getLanguageConfigurationRules('typescript'), undefined);
+        });
+    });
+});
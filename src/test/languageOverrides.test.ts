@@ -0,0 +1,133 @@
+import * as assert from 'assert';
+import * as vscode from 'vscode';
+import { getSmartKeysConfiguration } from '../configuration';
+import { SmartEndHandler } from '../handlers/smartEndHandler';
+import { SmartHomeHandler } from '../handlers/smartHomeHandler';
+import { SmartBackspaceHandler } from '../handlers/smartBackspaceHandler';
+import { SmartDeleteHandler } from '../handlers/smartDeleteHandler';
+import { SmartEnterHandler } from '../handlers/smartEnterHandler';
+import { SmartJsonColonHandler } from '../handlers/smartJsonColonHandler';
+import { SmartJsonCommaHandler } from '../handlers/smartJsonCommaHandler';
+import { createEditorWithCursor } from './helpers/editorTestUtils';
+
+/**
+ * Set or clear a Smart Keys setting for a single language (`"[language]": { ... }`).
+ */
+async function setLanguageOverride(languageId: string, key: string, value: boolean | undefined): Promise<void> {
+    await vscode.workspace
+        .getConfiguration('smart-keys', { languageId })
+        .update(key, value, vscode.ConfigurationTarget.Global, true);
+}
+
+suite('Language overrides', () => {
+    const overrides: Array<{ languageId: string; key: string }> = [];
+
+    async function disableForLanguage(languageId: string, key: string): Promise<void> {
+        overrides.push({ languageId, key });
+        await setLanguageOverride(languageId, key, false);
+    }
+
+    teardown(async () => {
+        for (const { languageId, key } of overrides.splice(0)) {
+            await setLanguageOverride(languageId, key, undefined);
+        }
+    });
+
+    suite('getSmartKeysConfiguration', () => {
+        test('Override applies only to its language', async () => {
+            await disableForLanguage('python', 'smartEnter.autoInsertClosingBrace');
+
+            const python = await vscode.workspace.openTextDocument({ content: '', language: 'python' });
+            const typescript = await vscode.workspace.openTextDocument({ content: '', language: 'typescript' });
+
+            assert.strictEqual(getSmartKeysConfiguration(python).smartEnter.autoInsertClosingBrace, false);
+            assert.strictEqual(getSmartKeysConfiguration(typescript).smartEnter.autoInsertClosingBrace, true);
+        });
+    });
+
+    suite('Smart Enter', () => {
+        test('Disabled brace insertion in Go - should not insert closing brace', async () => {
+            await disableForLanguage('go', 'smartEnter.autoInsertClosingBrace');
+
+            const editor = await createEditorWithCursor('func main() {⌘', 'go');
+            await new SmartEnterHandler().execute(editor);
+
+            assert.ok(!editor.document.getText().includes('}'));
+        });
+
+        test('Disabled brace insertion in Go - should keep it in TypeScript', async () => {
+            await disableForLanguage('go', 'smartEnter.autoInsertClosingBrace');
+
+            const editor = await createEditorWithCursor('const data = {⌘');
+            await new SmartEnterHandler().execute(editor);
+
+            assert.ok(editor.document.getText().includes('}'));
+        });
+    });
+
+    suite('Smart End', () => {
+        test('Disabled toggle - should move to full end of line', async () => {
+            await disableForLanguage('python', 'smartEnd.toggleTrimmedEnd');
+
+            const editor = await createEditorWithCursor('⌘x = 1   ', 'python');
+            await new SmartEndHandler().execute(editor);
+
+            assert.strictEqual(editor.selection.active.character, 8);
+        });
+    });
+
+    suite('Smart Home', () => {
+        test('Disabled empty line indent - should not indent', async () => {
+            await disableForLanguage('python', 'smartHome.indentEmptyLine');
+
+            const editor = await createEditorWithCursor('def f():\n⌘', 'python');
+            await new SmartHomeHandler().execute(editor);
+
+            assert.strictEqual(editor.document.lineAt(1).text, '');
+        });
+    });
+
+    suite('Smart Backspace', () => {
+        test('Disabled empty line handling - should delete one character', async () => {
+            await disableForLanguage('python', 'smartBackspace.handleEmptyLine');
+            await disableForLanguage('python', 'smartBackspace.handleIndentZone');
+
+            const editor = await createEditorWithCursor('x = 1\n    ⌘', 'python');
+            await new SmartBackspaceHandler().execute(editor);
+
+            assert.strictEqual(editor.document.lineCount, 2);
+        });
+    });
+
+    suite('Smart Delete', () => {
+        test('Disabled line end handling - should keep next line indent', async () => {
+            await disableForLanguage('python', 'smartDelete.handleLineEnd');
+
+            const editor = await createEditorWithCursor('foo(⌘\n    a)', 'python');
+            await new SmartDeleteHandler().execute(editor);
+
+            assert.strictEqual(editor.document.getText(), 'foo(    a)');
+        });
+    });
+
+    suite('JSON', () => {
+        test('Disabled whitespace after colon in JSONC - should insert bare colon', async () => {
+            await disableForLanguage('jsonc', 'json.addWhitespaceAfterColon');
+
+            const editor = await createEditorWithCursor('{\n  "name"⌘\n}', 'jsonc');
+            await new SmartJsonColonHandler().execute(editor);
+
+            assert.strictEqual(editor.document.lineAt(1).text, '  "name":');
+        });
+
+        test('Disabled comma insertion in JSONC - should not add comma', async () => {
+            await disableForLanguage('jsonc', 'json.insertCommaOnEnter');
+
+            const editor = await createEditorWithCursor('{\n  "name": "test"⌘\n  "age": 25\n}', 'jsonc');
+            const inserted = await new SmartJsonCommaHandler().execute(editor, { insertNewLine: false });
+
+            assert.strictEqual(inserted, false);
+            assert.strictEqual(editor.document.lineAt(1).text, '  "name": "test"');
+        });
+    });
+});
@@ -445,6 +445,27 @@ suite('SmartBackspaceHandler', () => {
             
             assert.strictEqual(lines.length, 5);
         });
+        
+        test('Closing brace with extra indent - should dedent to block level', async () => {
+            const content = 'function test() {\n    code();\n        ⌘}';
+            const editor = await createEditorWithCursor(content);
+            await handler.execute(editor);
+            
+            const lines = editor.document.getText().split(/\r?\n/);
+            
+            assert.deepStrictEqual(lines, ['function test() {', '    code();', '}']);
+            assert.strictEqual(editor.selection.active.character, 0);
+        });
+        
+        test('Python else with extra indent - should align with if', async () => {
+            const content = 'if x:\n    return 1\n    ⌘else:';
+            const editor = await createEditorWithCursor(content, 'python');
+            await handler.execute(editor);
+            
+            const lines = editor.document.getText().split(/\r?\n/);
+            
+            assert.strictEqual(lines[2], 'else:');
+        });
     });
     
     suite('Whitespace handling', () => {
@@ -533,17 +554,253 @@ suite('SmartBackspaceHandler', () => {
             assert.strictEqual(editor.selections.length, 2);
         });
 
-        test('Backspace with multiple cursors on empty lines - should use default behavior', async () => {
+        test('Backspace with multiple cursors on empty lines - should apply smart behavior to each', async () => {
             const content = 'function test() {\n\n    ⌘\n}\nif (x) {\n\n    ⌘\n}';
             const editor = await createEditorWithMultipleCursors(content);
+            editor.options = { tabSize: 4, insertSpaces: true };
             
             await handler.execute(editor);
             
-            const resultText = editor.document.getText();
+            const lines = editor.document.getText().split(/\r?\n/);
             
-            // Should use default behavior (not smart backspace logic)
-            // Both cursors should delete one character/space
+            // Previous empty line removed for both cursors
+            assert.deepStrictEqual(lines, ['function test() {', '    ', '}', 'if (x) {', '    ', '}']);
             assert.strictEqual(editor.selections.length, 2);
+            assert.strictEqual(editor.selections[0].active.line, 1);
+            assert.strictEqual(editor.selections[0].active.character, 4);
+            assert.strictEqual(editor.selections[1].active.line, 4);
+            assert.strictEqual(editor.selections[1].active.character, 4);
+        });
+
+        test('Backspace with multiple cursors in indent zone - should fix indent of each line', async () => {
+            const content = 'foo(a,\n    ⌘b);\nbar(c,\n    ⌘d);';
+            const editor = await createEditorWithMultipleCursors(content);
+            editor.options = { tabSize: 4, insertSpaces: true };
+            
+            await handler.execute(editor);
+            
+            const lines = editor.document.getText().split(/\r?\n/);
+            
+            assert.deepStrictEqual(lines, ['foo(a,', 'b);', 'bar(c,', 'd);']);
+            assert.strictEqual(editor.selections[0].active.line, 1);
+            assert.strictEqual(editor.selections[0].active.character, 0);
+            assert.strictEqual(editor.selections[1].active.line, 3);
+            assert.strictEqual(editor.selections[1].active.character, 0);
+        });
+
+        test('Backspace with multiple cursors at correct indent - should join each line with previous', async () => {
+            const content = 'foo(a,\n⌘b);\nbar(c,\n⌘d);';
+            const editor = await createEditorWithMultipleCursors(content);
+            
+            await handler.execute(editor);
+            
+            const lines = editor.document.getText().split(/\r?\n/);
+            
+            assert.deepStrictEqual(lines, ['foo(a,b);', 'bar(c,d);']);
+            assert.strictEqual(editor.selections[0].active.line, 0);
+            assert.strictEqual(editor.selections[0].active.character, 6);
+            assert.strictEqual(editor.selections[1].active.line, 1);
+            assert.strictEqual(editor.selections[1].active.character, 6);
+        });
+
+        test('Backspace with multiple cursors on empty lines after text - should remove lines', async () => {
+            const content = 'const x = 1;   \n⌘\nconst y = 2;\n    ⌘\nconst z = 3;';
+            const editor = await createEditorWithMultipleCursors(content);
+            
+            await handler.execute(editor);
+            
+            const lines = editor.document.getText().split(/\r?\n/);
+            
+            assert.deepStrictEqual(lines, ['const x = 1;', 'const y = 2;', 'const z = 3;']);
+            assert.strictEqual(editor.selections[0].active.line, 0);
+            assert.strictEqual(editor.selections[0].active.character, 12);
+            assert.strictEqual(editor.selections[1].active.line, 1);
+            assert.strictEqual(editor.selections[1].active.character, 12);
+        });
+
+        test('Backspace with mixed smart and plain cursors - should handle each', async () => {
+            const content = 'const x = 1;\n⌘\nconst ab⌘c = 2;';
+            const editor = await createEditorWithMultipleCursors(content);
+            
+            await handler.execute(editor);
+            
+            const lines = editor.document.getText().split(/\r?\n/);
+            
+            assert.deepStrictEqual(lines, ['const x = 1;', 'const ac = 2;']);
+            assert.strictEqual(editor.selections[0].active.line, 0);
+            assert.strictEqual(editor.selections[0].active.character, 12);
+            assert.strictEqual(editor.selections[1].active.line, 1);
+            assert.strictEqual(editor.selections[1].active.character, 7);
+        });
+    });
+
+    suite('Indent zone mode: oneLevel', () => {
+        setup(async () => {
+            await vscode.workspace
+                .getConfiguration('smart-keys')
+                .update('smartBackspace.indentZoneMode', 'oneLevel', vscode.ConfigurationTarget.Global);
+        });
+
+        teardown(async () => {
+            await vscode.workspace
+                .getConfiguration('smart-keys')
+                .update('smartBackspace.indentZoneMode', undefined, vscode.ConfigurationTarget.Global);
+        });
+
+        test('Deeper continuation indent - should remove one level', async () => {
+            const editor = await createEditorWithCursor('const x = a +\n        ⌘b;');
+
+            await handler.execute(editor);
+
+            assert.strictEqual(editor.document.lineAt(1).text, '    b;');
+            assert.strictEqual(editor.selection.active.character, 4);
+        });
+
+        test('Indent between tab stops - should snap to previous tab stop', async () => {
+            const editor = await createEditorWithCursor('foo(a,\n      ⌘b);');
+
+            await handler.execute(editor);
+
+            assert.strictEqual(editor.document.lineAt(1).text, '    b);');
+        });
+
+        test('Column 0 - should join with previous line', async () => {
+            const editor = await createEditorWithCursor('const x = 1;\n⌘const y = 2;');
+
+            await handler.execute(editor);
+
+            assert.strictEqual(editor.document.lineAt(0).text, 'const x = 1;const y = 2;');
+        });
+    });
+
+    suite('Indent zone mode: alignToPrevious', () => {
+        setup(async () => {
+            await vscode.workspace
+                .getConfiguration('smart-keys')
+                .update('smartBackspace.indentZoneMode', 'alignToPrevious', vscode.ConfigurationTarget.Global);
+        });
+
+        teardown(async () => {
+            await vscode.workspace
+                .getConfiguration('smart-keys')
+                .update('smartBackspace.indentZoneMode', undefined, vscode.ConfigurationTarget.Global);
+        });
+
+        test('Aligned argument - should align with previous shorter indent', async () => {
+            const editor = await createEditorWithCursor('    call(first,\n         second,\n         ⌘third);');
+
+            await handler.execute(editor);
+
+            assert.strictEqual(editor.document.lineAt(2).text, '    third);');
+            assert.strictEqual(editor.selection.active.character, 4);
+        });
+
+        test('No shorter indent above - should remove indent', async () => {
+            const editor = await createEditorWithCursor('    a();\n    ⌘b();');
+
+            await handler.execute(editor);
+
+            assert.strictEqual(editor.document.lineAt(1).text, 'b();');
+        });
+    });
+
+    suite('Empty pairs', () => {
+        test('Backspace between braces - should delete both', async () => {
+            const editor = await createEditorWithCursor('const x = {⌘};');
+
+            await handler.execute(editor);
+
+            assert.strictEqual(editor.document.lineAt(0).text, 'const x = ;');
+            assert.strictEqual(editor.selection.active.character, 10);
+        });
+
+        test('Backspace between parentheses - should delete both', async () => {
+            const editor = await createEditorWithCursor('call(⌘)');
+
+            await handler.execute(editor);
+
+            assert.strictEqual(editor.document.lineAt(0).text, 'call');
+        });
+
+        test('Backspace between quotes - should delete both', async () => {
+            const editor = await createEditorWithCursor('const s = "⌘";', 'typescript');
+
+            await handler.execute(editor);
+
+            assert.strictEqual(editor.document.lineAt(0).text, 'const s = ;');
+        });
+
+        test('Backspace between closing and opening quote - should delete one', async () => {
+            const editor = await createEditorWithCursor('f("a"⌘"b")', 'typescript');
+
+            await handler.execute(editor);
+
+            assert.strictEqual(editor.document.lineAt(0).text, 'f("a"b")');
+        });
+
+        test('Backspace between brackets inside string - should delete one', async () => {
+            const editor = await createEditorWithCursor('const s = "[⌘]";', 'typescript');
+
+            await handler.execute(editor);
+
+            assert.strictEqual(editor.document.lineAt(0).text, 'const s = "]";');
+        });
+    });
+
+    suite('Empty expanded blocks', () => {
+        test('Backspace on blank line inside braces - should collapse block', async () => {
+            const editor = await createEditorWithCursor('function test() {\n    ⌘\n}');
+
+            await handler.execute(editor);
+
+            assert.deepStrictEqual(editor.document.getText().split(/\r?\n/), ['function test() {}']);
+            assert.strictEqual(editor.selection.active.line, 0);
+            assert.strictEqual(editor.selection.active.character, 17);
+        });
+
+        test('Text after closing bracket - should be kept', async () => {
+            const editor = await createEditorWithCursor('items.forEach((item) => {\n    ⌘\n});');
+
+            await handler.execute(editor);
+
+            assert.deepStrictEqual(editor.document.getText().split(/\r?\n/), ['items.forEach((item) => {});']);
+        });
+
+        test('Block with content - should not collapse', async () => {
+            const editor = await createEditorWithCursor('function test() {\n    ⌘\n    code();\n}');
+
+            await handler.execute(editor);
+
+            assert.strictEqual(editor.document.lineAt(0).text, 'function test() {');
+        });
+    });
+
+    suite('Python indentation', () => {
+        test('Backspace in indent zone - should remove one indent level', async () => {
+            const editor = await createEditorWithCursor('def f():\n    if x:\n        ⌘return 1', 'python');
+
+            await handler.execute(editor);
+
+            assert.strictEqual(editor.document.lineAt(2).text, '    return 1');
+            assert.strictEqual(editor.selection.active.character, 4);
+        });
+
+        test('Backspace on whitespace-only line - should remove one indent level', async () => {
+            const editor = await createEditorWithCursor('def f():\n    pass\n    ⌘', 'python');
+
+            await handler.execute(editor);
+
+            assert.strictEqual(editor.document.lineCount, 3);
+            assert.strictEqual(editor.document.lineAt(2).text, '');
+        });
+
+        test('Backspace with correct indent - should not join lines', async () => {
+            const editor = await createEditorWithCursor('def f():\n    x = 1\n    ⌘y = 2', 'python');
+
+            await handler.execute(editor);
+
+            assert.strictEqual(editor.document.lineCount, 3);
+            assert.strictEqual(editor.document.lineAt(2).text, 'y = 2');
         });
     });
 });
@@ -0,0 +1,133 @@
+import * as assert from 'assert';
+import * as vscode from 'vscode';
+import { SmartDeleteHandler } from '../handlers/smartDeleteHandler';
+import { createEditorWithCursor, createMockEditor, createEditorWithMultipleCursors } from './helpers/editorTestUtils';
+
+suite('SmartDeleteHandler', () => {
+    let handler: SmartDeleteHandler;
+
+    setup(() => {
+        handler = new SmartDeleteHandler();
+    });
+
+    suite('Delete at end of line', () => {
+        test('Delete at end of line - should join next line without indent', async () => {
+            const content = 'const x = foo(⌘\n        a, b);';
+            const editor = await createEditorWithCursor(content);
+            await handler.execute(editor);
+
+            assert.strictEqual(editor.document.getText(), 'const x = foo( a, b);');
+            assert.strictEqual(editor.selection.active.line, 0);
+            assert.strictEqual(editor.selection.active.character, 14);
+        });
+
+        test('Delete with trailing spaces - should collapse whitespace to one space', async () => {
+            const content = 'if (a &&⌘   \n    b) {';
+            const editor = await createEditorWithCursor(content);
+            await handler.execute(editor);
+
+            assert.strictEqual(editor.document.getText(), 'if (a && b) {');
+            assert.strictEqual(editor.selection.active.character, 8);
+        });
+
+        test('Delete inside trailing spaces - should join lines', async () => {
+            const content = 'first  ⌘  \nsecond';
+            const editor = await createEditorWithCursor(content);
+            await handler.execute(editor);
+
+            assert.strictEqual(editor.document.getText(), 'first second');
+        });
+
+        test('Delete at end of line followed by blank line - should remove blank line', async () => {
+            const content = 'first⌘\n    \nsecond';
+            const editor = await createEditorWithCursor(content);
+            await handler.execute(editor);
+
+            assert.strictEqual(editor.document.getText(), 'first\nsecond');
+            assert.strictEqual(editor.selection.active.line, 0);
+            assert.strictEqual(editor.selection.active.character, 5);
+        });
+
+        test('Delete at end of last line - should do nothing', async () => {
+            const content = 'only line⌘';
+            const editor = await createEditorWithCursor(content);
+            await handler.execute(editor);
+
+            assert.strictEqual(editor.document.getText(), 'only line');
+        });
+    });
+
+    suite('Delete on empty line', () => {
+        test('Delete on empty line - should remove following blank lines', async () => {
+            const content = 'function test() {\n    ⌘\n\n  \n    return 1;\n}';
+            const editor = await createEditorWithCursor(content);
+            await handler.execute(editor);
+
+            const lines = editor.document.getText().split(/\r?\n/);
+
+            assert.deepStrictEqual(lines, ['function test() {', '    ', '    return 1;', '}']);
+            assert.strictEqual(editor.selection.active.line, 1);
+            assert.strictEqual(editor.selection.active.character, 4);
+        });
+
+        test('Delete on empty line before text - should remove current line', async () => {
+            const content = 'function test() {\n⌘\n    return 1;\n}';
+            const editor = await createEditorWithCursor(content);
+            await handler.execute(editor);
+
+            const lines = editor.document.getText().split(/\r?\n/);
+
+            assert.deepStrictEqual(lines, ['function test() {', '    return 1;', '}']);
+            assert.strictEqual(editor.selection.active.line, 1);
+            assert.strictEqual(editor.selection.active.character, 4);
+        });
+    });
+
+    suite('Delete with default behavior', () => {
+        test('Delete in middle of line - should delete next character', async () => {
+            const content = 'const ⌘x = 1;';
+            const editor = await createEditorWithCursor(content);
+            await handler.execute(editor);
+
+            assert.strictEqual(editor.document.getText(), 'const  = 1;');
+        });
+
+        test('Delete with selection - should delete selection', async () => {
+            const content = 'const x = 1;';
+            const editor = await createMockEditor(content, 0, 0);
+            editor.selection = new vscode.Selection(
+                new vscode.Position(0, 0),
+                new vscode.Position(0, 6)
+            );
+
+            await handler.execute(editor);
+
+            assert.strictEqual(editor.document.getText(), 'x = 1;');
+        });
+    });
+
+    suite('Multi-cursor support', () => {
+        test('Delete with multiple cursors at line ends - should join each line', async () => {
+            const content = 'foo(⌘\n    a);\nbar(⌘\n    b);';
+            const editor = await createEditorWithMultipleCursors(content);
+            await handler.execute(editor);
+
+            const lines = editor.document.getText().split(/\r?\n/);
+
+            assert.deepStrictEqual(lines, ['foo( a);', 'bar( b);']);
+            assert.strictEqual(editor.selections[0].active.line, 0);
+            assert.strictEqual(editor.selections[0].active.character, 4);
+            assert.strictEqual(editor.selections[1].active.line, 1);
+            assert.strictEqual(editor.selections[1].active.character, 4);
+        });
+
+        test('Delete with multiple cursors in middle of lines - should use default behavior', async () => {
+            const content = 'co⌘de\nte⌘st';
+            const editor = await createEditorWithMultipleCursors(content);
+            await handler.execute(editor);
+
+            assert.strictEqual(editor.document.getText(), 'coe\ntet');
+            assert.strictEqual(editor.selections.length, 2);
+        });
+    });
+});
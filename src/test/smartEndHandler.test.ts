@@ -174,8 +174,7 @@ suite('SmartEndHandler', () => {
             // Check if state should reset
             const shouldReset = handler.shouldResetOnCursorMove(
                 editor.document.uri.toString(),
-                0,
-                0
+                [new vscode.Position(0, 0)]
             );
             assert.strictEqual(shouldReset, true);
         });
@@ -190,8 +189,7 @@ suite('SmartEndHandler', () => {
             // Small movement (within 1 char) should not reset
             const shouldReset = handler.shouldResetOnCursorMove(
                 editor.document.uri.toString(),
-                0,
-                editor.selection.active.character
+                [editor.selection.active]
             );
             assert.strictEqual(shouldReset, false);
         });
@@ -207,8 +205,7 @@ suite('SmartEndHandler', () => {
             // State should be cleared
             const shouldReset = handler.shouldResetOnCursorMove(
                 editor.document.uri.toString(),
-                0,
-                5
+                [new vscode.Position(0, 5)]
             );
             assert.strictEqual(shouldReset, false);
         });
@@ -466,6 +463,17 @@ suite('SmartEndHandler', () => {
             
             assert.ok(lines[1].length > 0);
         });
+        
+        test('End after Python return - should dedent', async () => {
+            const content = 'def test():\n    if x:\n        return 1\n⌘';
+            const editor = await createEditorWithCursor(content, 'python');
+            await handler.execute(editor);
+            
+            const lines = editor.document.getText().split(/\r?\n/);
+            
+            assert.strictEqual(lines[3], '    ');
+            assert.strictEqual(editor.selection.active.character, 4);
+        });
     });
 
     suite('Multi-cursor support', () => {
@@ -511,5 +519,121 @@ suite('SmartEndHandler', () => {
             assert.ok(lines[2].length > 0);
             assert.strictEqual(editor.selections[1].active.line, 2);
         });
+
+        test('End pressed twice with multiple cursors - should toggle each to full end', async () => {
+            const content = '⌘const x = 1;   \n⌘const y = 2; ';
+            const editor = await createEditorWithMultipleCursors(content);
+            await handler.execute(editor);
+            await handler.execute(editor);
+
+            assert.strictEqual(editor.selections[0].active.character, 15);
+            assert.strictEqual(editor.selections[1].active.character, 13);
+
+            await handler.execute(editor);
+
+            assert.strictEqual(editor.selections[0].active.character, 12);
+            assert.strictEqual(editor.selections[1].active.character, 12);
+        });
+
+        test('State resets when any cursor moves significantly', async () => {
+            const content = '⌘const x = 1;   \n⌘const y = 2;   ';
+            const editor = await createEditorWithMultipleCursors(content);
+            await handler.execute(editor);
+
+            const documentUri = editor.document.uri.toString();
+            const [first, second] = editor.selections.map(selection => selection.active);
+
+            assert.strictEqual(handler.shouldResetOnCursorMove(documentUri, [first, second]), false);
+            assert.strictEqual(handler.shouldResetOnCursorMove(documentUri, [first, new vscode.Position(1, 0)]), true);
+            assert.strictEqual(handler.shouldResetOnCursorMove(documentUri, [first]), true);
+        });
+    });
+
+    suite('Smart End Select', () => {
+        test('Shift+End from line start - should select up to trimmed end', async () => {
+            const content = '⌘const x = 1;   ';
+            const editor = await createEditorWithCursor(content);
+            await handler.executeSelect(editor);
+
+            assert.strictEqual(editor.selection.anchor.character, 0);
+            assert.strictEqual(editor.selection.active.character, 12);
+            assert.strictEqual(editor.document.getText(editor.selection), 'const x = 1;');
+        });
+
+        test('Shift+End pressed twice - should toggle selection to full end', async () => {
+            const content = '⌘const x = 1;   ';
+            const editor = await createEditorWithCursor(content);
+
+            await handler.executeSelect(editor);
+            assert.strictEqual(editor.selection.active.character, 12);
+
+            await handler.executeSelect(editor);
+            assert.strictEqual(editor.selection.anchor.character, 0);
+            assert.strictEqual(editor.selection.active.character, 15);
+
+            await handler.executeSelect(editor);
+            assert.strictEqual(editor.selection.active.character, 12);
+        });
+
+        test('Shift+End keeps anchor of existing multi-line selection', async () => {
+            const content = 'line1\nline2   ';
+            const editor = await createMockEditor(content, 0, 2);
+            editor.selection = new vscode.Selection(
+                new vscode.Position(0, 2),
+                new vscode.Position(1, 1)
+            );
+
+            await handler.executeSelect(editor);
+
+            assert.strictEqual(editor.selection.anchor.line, 0);
+            assert.strictEqual(editor.selection.anchor.character, 2);
+            assert.strictEqual(editor.selection.active.line, 1);
+            assert.strictEqual(editor.selection.active.character, 5);
+        });
+
+        test('Shift+End with multiple cursors - should extend each selection', async () => {
+            const content = '⌘const x = 1;   \nconst ⌘y = 2;   ';
+            const editor = await createEditorWithMultipleCursors(content);
+            await handler.executeSelect(editor);
+
+            assert.strictEqual(editor.selections.length, 2);
+            assert.strictEqual(editor.selections[0].anchor.character, 0);
+            assert.strictEqual(editor.selections[0].active.character, 12);
+            assert.strictEqual(editor.selections[1].anchor.character, 6);
+            assert.strictEqual(editor.selections[1].active.character, 12);
+        });
+
+        test('Shift+End pressed twice with multiple cursors - should extend each to full end', async () => {
+            const content = '⌘const x = 1;   \n⌘const y = 2;   ';
+            const editor = await createEditorWithMultipleCursors(content);
+            await handler.executeSelect(editor);
+            await handler.executeSelect(editor);
+
+            assert.strictEqual(editor.selections[0].anchor.character, 0);
+            assert.strictEqual(editor.selections[0].active.character, 15);
+            assert.strictEqual(editor.selections[1].anchor.character, 0);
+            assert.strictEqual(editor.selections[1].active.character, 15);
+        });
+
+        test('Shift+End does not modify empty lines', async () => {
+            const content = 'function test() {\n⌘\n}';
+            const editor = await createEditorWithCursor(content);
+            await handler.executeSelect(editor);
+
+            assert.strictEqual(editor.document.getText(), 'function test() {\n\n}');
+        });
+
+        test('Shift+End on whitespace-only line - should not move backwards', async () => {
+            const content = 'function test() {\n  ⌘  \n}';
+            const editor = await createEditorWithCursor(content);
+
+            await handler.executeSelect(editor);
+            assert.strictEqual(editor.selection.anchor.character, 2);
+            assert.strictEqual(editor.selection.active.character, 4);
+
+            await handler.executeSelect(editor);
+            assert.strictEqual(editor.selection.active.character, 4);
+            assert.strictEqual(editor.document.lineAt(1).text, '    ');
+        });
     });
 });
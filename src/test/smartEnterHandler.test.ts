@@ -419,6 +419,255 @@ suite('SmartEnterHandler', () => {
         });
     });
 
+    suite('Brackets and parentheses', () => {
+        test('Enter after opening bracket - should expand array', async () => {
+            const content = 'const arr = [⌘];';
+            const editor = await createEditorWithCursor(content);
+            editor.options = { tabSize: 4, insertSpaces: true };
+            await handler.execute(editor);
+            
+            const lines = editor.document.getText().split(/\r?\n/);
+            
+            assert.strictEqual(lines[0], 'const arr = [');
+            assert.strictEqual(lines[1], '    ');
+            assert.strictEqual(lines[2], '];');
+            assert.strictEqual(editor.selection.active.line, 1);
+            assert.strictEqual(editor.selection.active.character, 4);
+        });
+        
+        test('Enter after opening parenthesis - should expand arguments', async () => {
+            const content = 'foo(⌘);';
+            const editor = await createEditorWithCursor(content);
+            editor.options = { tabSize: 4, insertSpaces: true };
+            await handler.execute(editor);
+            
+            const lines = editor.document.getText().split(/\r?\n/);
+            
+            assert.strictEqual(lines[0], 'foo(');
+            assert.strictEqual(lines[1], '    ');
+            assert.strictEqual(lines[2], ');');
+        });
+        
+        test('Enter after parenthesis with arguments - should move arguments inside', async () => {
+            const content = 'foo(⌘a, bar(b));';
+            const editor = await createEditorWithCursor(content);
+            editor.options = { tabSize: 4, insertSpaces: true };
+            await handler.execute(editor);
+            
+            const lines = editor.document.getText().split(/\r?\n/);
+            
+            assert.strictEqual(lines[0], 'foo(');
+            assert.strictEqual(lines[1], '    a, bar(b)');
+            assert.strictEqual(lines[2], ');');
+            assert.strictEqual(editor.selection.active.line, 1);
+            assert.strictEqual(editor.selection.active.character, 4);
+        });
+        
+        test('Enter after matched bracket - should not insert closing', async () => {
+            const content = 'const arr = [⌘\n    1\n];';
+            const editor = await createEditorWithCursor(content);
+            await handler.execute(editor);
+            
+            const resultText = editor.document.getText();
+            
+            assert.strictEqual((resultText.match(/]/g) || []).length, 1);
+        });
+        
+        test('Enter with multiple cursors after mixed brackets - should expand all', async () => {
+            const content = 'foo(⌘)\nconst arr = [⌘]';
+            const editor = await createEditorWithMultipleCursors(content);
+            editor.options = { tabSize: 4, insertSpaces: true };
+            await handler.execute(editor);
+            
+            const lines = editor.document.getText().split(/\r?\n/);
+            
+            assert.deepStrictEqual(lines, ['foo(', '    ', ')', 'const arr = [', '    ', ']']);
+            assert.strictEqual(editor.selections[0].active.line, 1);
+            assert.strictEqual(editor.selections[1].active.line, 4);
+        });
+    });
+
+    suite('Braces in strings and comments', () => {
+        test('Closing brace in string after block - should still insert closing brace', async () => {
+            const content = 'function test() {⌘\n    const s = "}";';
+            const editor = await createEditorWithCursor(content);
+            await handler.execute(editor);
+            
+            const lines = editor.document.getText().split(/\r?\n/);
+            
+            assert.strictEqual(lines[0], 'function test() {');
+            assert.strictEqual(lines[1], '    ');
+            assert.strictEqual(lines[2], '}');
+        });
+
+        test('Enter after brace inside a comment - should not insert closing brace', async () => {
+            const content = '// example: {⌘';
+            const editor = await createEditorWithCursor(content);
+            await handler.execute(editor);
+            
+            const resultText = editor.document.getText();
+            
+            assert.ok(!resultText.includes('}'));
+        });
+    });
+
+    suite('Block comments', () => {
+        test('Enter after /** - should continue prefix and close comment', async () => {
+            const content = '/**⌘';
+            const editor = await createEditorWithCursor(content);
+            await handler.execute(editor);
+            
+            const lines = editor.document.getText().split(/\r?\n/);
+            
+            assert.deepStrictEqual(lines, ['/**', ' * ', ' */']);
+            assert.strictEqual(editor.selection.active.line, 1);
+            assert.strictEqual(editor.selection.active.character, 3);
+        });
+
+        test('Enter after indented /** - should align asterisks', async () => {
+            const content = 'class A {\n    /**⌘\n    method() {}\n}';
+            const editor = await createEditorWithCursor(content);
+            await handler.execute(editor);
+            
+            const lines = editor.document.getText().split(/\r?\n/);
+            
+            assert.deepStrictEqual(lines.slice(1, 4), ['    /**', '     * ', '     */']);
+            assert.strictEqual(editor.selection.active.character, 7);
+        });
+
+        test('Enter between /** and */ - should move comment end to its own line', async () => {
+            const content = '/** ⌘*/';
+            const editor = await createEditorWithCursor(content);
+            await handler.execute(editor);
+            
+            const lines = editor.document.getText().split(/\r?\n/);
+            
+            assert.deepStrictEqual(lines, ['/**', ' * ', ' */']);
+        });
+
+        test('Enter after /** of existing comment - should not close it again', async () => {
+            const content = '/**⌘\n * text\n */';
+            const editor = await createEditorWithCursor(content);
+            await handler.execute(editor);
+            
+            const lines = editor.document.getText().split(/\r?\n/);
+            
+            assert.deepStrictEqual(lines, ['/**', ' * ', ' * text', ' */']);
+        });
+
+        test('Enter at end of comment line - should continue prefix', async () => {
+            const content = '/**\n * first⌘\n */';
+            const editor = await createEditorWithCursor(content);
+            await handler.execute(editor);
+            
+            const lines = editor.document.getText().split(/\r?\n/);
+            
+            assert.deepStrictEqual(lines, ['/**', ' * first', ' * ', ' */']);
+            assert.strictEqual(editor.selection.active.line, 2);
+            assert.strictEqual(editor.selection.active.character, 3);
+        });
+
+        test('Enter in middle of comment line - should move text to new prefixed line', async () => {
+            const content = '/**\n * first ⌘second\n */';
+            const editor = await createEditorWithCursor(content);
+            await handler.execute(editor);
+            
+            const lines = editor.document.getText().split(/\r?\n/);
+            
+            assert.deepStrictEqual(lines, ['/**', ' * first', ' * second', ' */']);
+        });
+    });
+
+    suite('String splitting', () => {
+        test('Enter inside string - should close, concatenate and reopen', async () => {
+            const content = 'const s = "hello ⌘world";';
+            const editor = await createEditorWithCursor(content);
+            await handler.execute(editor);
+            
+            const lines = editor.document.getText().split(/\r?\n/);
+            
+            assert.deepStrictEqual(lines, ['const s = "hello " +', '    "world";']);
+            assert.strictEqual(editor.selection.active.line, 1);
+            assert.strictEqual(editor.selection.active.character, 5);
+        });
+
+        test('Enter inside continued string - should keep indent', async () => {
+            const content = 'const s = \'a\' +\n    \'hello ⌘world\';';
+            const editor = await createEditorWithCursor(content);
+            await handler.execute(editor);
+            
+            const lines = editor.document.getText().split(/\r?\n/);
+            
+            assert.deepStrictEqual(lines, ['const s = \'a\' +', '    \'hello \' +', '    \'world\';']);
+        });
+
+        test('Enter inside Python string - should use line continuation', async () => {
+            const content = 'x = "ab⌘cd"';
+            const editor = await createEditorWithCursor(content, 'python');
+            await handler.execute(editor);
+            
+            const lines = editor.document.getText().split(/\r?\n/);
+            
+            assert.deepStrictEqual(lines, ['x = "ab" \\', '    "cd"']);
+        });
+
+        test('Enter after escape backslash - should not split string', async () => {
+            const content = 'const s = "a\\⌘nb";';
+            const editor = await createEditorWithCursor(content);
+            await handler.execute(editor);
+            
+            const resultText = editor.document.getText();
+            
+            assert.ok(!resultText.includes('" +'));
+        });
+
+        test('Enter inside Python f-string - should reopen with prefix', async () => {
+            const content = 'x = f"a{y}⌘b"';
+            const editor = await createEditorWithCursor(content, 'python');
+            await handler.execute(editor);
+
+            const lines = editor.document.getText().split(/\r?\n/);
+
+            assert.deepStrictEqual(lines, ['x = f"a{y}" \\', '    f"b"']);
+            assert.strictEqual(editor.selection.active.character, 6);
+        });
+
+        test('Enter inside f-string interpolation - should not split string', async () => {
+            const content = 'x = f"a{y⌘}b"';
+            const editor = await createEditorWithCursor(content, 'python');
+            await handler.execute(editor);
+
+            assert.ok(!editor.document.getText().includes('" \\'));
+        });
+
+        test('Enter inside C# interpolated string - should reopen with prefix', async () => {
+            const content = 'var s = $"a {x} ⌘b";';
+            const editor = await createEditorWithCursor(content, 'csharp');
+            await handler.execute(editor);
+
+            const lines = editor.document.getText().split(/\r?\n/);
+
+            assert.deepStrictEqual(lines, ['var s = $"a {x} " +', '    $"b";']);
+        });
+
+        test('Enter inside C++ raw string - should not split string', async () => {
+            const content = 'auto s = R"(a⌘b)";';
+            const editor = await createEditorWithCursor(content, 'cpp');
+            await handler.execute(editor);
+
+            assert.ok(!editor.document.getText().includes('"\n'));
+            assert.ok(!editor.document.getText().includes('"\r\n'));
+        });
+
+        test('Enter inside Java char literal - should not split literal', async () => {
+            const content = 'char c = \'a⌘\';';
+            const editor = await createEditorWithCursor(content, 'java');
+            await handler.execute(editor);
+
+            assert.ok(!editor.document.getText().includes('\' +'));
+        });
+    });
+
     suite('Multi-cursor support', () => {
         test('Enter with multiple cursors after opening braces - should expand all', async () => {
             const content = 'function test() {⌘}\nif (x) {⌘}';
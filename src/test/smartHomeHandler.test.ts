@@ -0,0 +1,194 @@
+import * as assert from 'assert';
+import * as vscode from 'vscode';
+import { SmartHomeHandler } from '../handlers/smartHomeHandler';
+import { createEditorWithCursor, createMockEditor, createEditorWithMultipleCursors } from './helpers/editorTestUtils';
+
+suite('SmartHomeHandler', () => {
+    let handler: SmartHomeHandler;
+
+    setup(() => {
+        handler = new SmartHomeHandler();
+    });
+
+    suite('Home key on empty line', () => {
+        test('Home on empty line after opening brace - should add indent', async () => {
+            const content = 'function test() {\n⌘\n}';
+            const editor = await createEditorWithCursor(content);
+            editor.options = { tabSize: 4, insertSpaces: true };
+            await handler.execute(editor);
+
+            const lines = editor.document.getText().split(/\r?\n/);
+
+            assert.strictEqual(lines[1], '    ');
+            assert.strictEqual(editor.selection.active.line, 1);
+            assert.strictEqual(editor.selection.active.character, 4);
+        });
+
+        test('Home on empty line with wrong indent - should recalculate', async () => {
+            const content = 'if (true) {\n          ⌘\n}';
+            const editor = await createEditorWithCursor(content);
+            editor.options = { tabSize: 4, insertSpaces: true };
+            await handler.execute(editor);
+
+            const lines = editor.document.getText().split(/\r?\n/);
+
+            assert.strictEqual(lines[1], '    ');
+            assert.strictEqual(editor.selection.active.character, 4);
+        });
+
+        test('Home on empty line at document start', async () => {
+            const content = '⌘\ncode';
+            const editor = await createEditorWithCursor(content);
+            await handler.execute(editor);
+
+            const lines = editor.document.getText().split(/\r?\n/);
+
+            assert.strictEqual(lines[0], '');
+            assert.strictEqual(editor.selection.active.character, 0);
+        });
+    });
+
+    suite('Home key indent/line start toggle', () => {
+        test('Home in middle of indented line - should go to first non-whitespace', async () => {
+            const content = '    const ⌘x = 1;';
+            const editor = await createEditorWithCursor(content);
+            await handler.execute(editor);
+
+            assert.strictEqual(editor.selection.active.character, 4);
+        });
+
+        test('Home at first non-whitespace - should go to line start', async () => {
+            const content = '    ⌘const x = 1;';
+            const editor = await createEditorWithCursor(content);
+            await handler.execute(editor);
+
+            assert.strictEqual(editor.selection.active.character, 0);
+        });
+
+        test('Home at line start - should go to first non-whitespace', async () => {
+            const content = '⌘    const x = 1;';
+            const editor = await createEditorWithCursor(content);
+            await handler.execute(editor);
+
+            assert.strictEqual(editor.selection.active.character, 4);
+        });
+
+        test('Home inside indent zone - should go to first non-whitespace', async () => {
+            const content = '  ⌘  const x = 1;';
+            const editor = await createEditorWithCursor(content);
+            await handler.execute(editor);
+
+            assert.strictEqual(editor.selection.active.character, 4);
+        });
+
+        test('Home on line without indent - should go to line start', async () => {
+            const content = 'const ⌘x = 1;';
+            const editor = await createEditorWithCursor(content);
+            await handler.execute(editor);
+
+            assert.strictEqual(editor.selection.active.character, 0);
+        });
+    });
+
+    suite('State management', () => {
+        test('State persists across multiple Home presses on same line', async () => {
+            const content = '    const x = 1;';
+            const editor = await createMockEditor(content, 0, 10);
+
+            await handler.execute(editor);
+            assert.strictEqual(editor.selection.active.character, 4);
+
+            await handler.execute(editor);
+            assert.strictEqual(editor.selection.active.character, 0);
+
+            await handler.execute(editor);
+            assert.strictEqual(editor.selection.active.character, 4);
+        });
+
+        test('State resets when cursor moves significantly', async () => {
+            const content = '    const x = 1;';
+            const editor = await createMockEditor(content, 0, 10);
+
+            await handler.execute(editor);
+
+            const shouldReset = handler.shouldResetOnCursorMove(
+                editor.document.uri.toString(),
+                0,
+                12
+            );
+            assert.strictEqual(shouldReset, true);
+        });
+
+        test('State does not reset for small cursor movements', async () => {
+            const content = '    const x = 1;';
+            const editor = await createMockEditor(content, 0, 10);
+
+            await handler.execute(editor);
+
+            const shouldReset = handler.shouldResetOnCursorMove(
+                editor.document.uri.toString(),
+                0,
+                editor.selection.active.character
+            );
+            assert.strictEqual(shouldReset, false);
+        });
+
+        test('Clear state removes all stored positions', async () => {
+            const content = '    line1\n    line2';
+            const editor = await createMockEditor(content, 0, 6);
+
+            await handler.execute(editor);
+            handler.clear();
+
+            const shouldReset = handler.shouldResetOnCursorMove(
+                editor.document.uri.toString(),
+                1,
+                0
+            );
+            assert.strictEqual(shouldReset, false);
+        });
+
+        test('State resets when moving to different line', async () => {
+            const content = '    line1\n    line2';
+            const editor = await createMockEditor(content, 0, 6);
+
+            await handler.execute(editor);
+            assert.strictEqual(editor.selection.active.character, 4);
+
+            editor.selection = new vscode.Selection(
+                new vscode.Position(1, 6),
+                new vscode.Position(1, 6)
+            );
+
+            await handler.execute(editor);
+            assert.strictEqual(editor.selection.active.line, 1);
+            assert.strictEqual(editor.selection.active.character, 4);
+        });
+    });
+
+    suite('Multi-cursor support', () => {
+        test('Home with multiple cursors on non-empty lines - should move all to first non-whitespace', async () => {
+            const content = '    const ⌘x = 1;\n  let ⌘y = 2;';
+            const editor = await createEditorWithMultipleCursors(content);
+            await handler.execute(editor);
+
+            assert.strictEqual(editor.selections.length, 2);
+            assert.strictEqual(editor.selections[0].active.line, 0);
+            assert.strictEqual(editor.selections[0].active.character, 4);
+            assert.strictEqual(editor.selections[1].active.line, 1);
+            assert.strictEqual(editor.selections[1].active.character, 2);
+        });
+
+        test('Home with multiple cursors on empty lines - should add indent to all', async () => {
+            const content = 'function test() {\n⌘\n}\nif (x) {\n⌘\n}';
+            const editor = await createEditorWithMultipleCursors(content);
+            await handler.execute(editor);
+
+            const lines = editor.document.getText().split(/\r?\n/);
+
+            assert.ok(lines[1].length > 0);
+            assert.ok(lines[4].length > 0);
+            assert.strictEqual(editor.selections.length, 2);
+        });
+    });
+});
@@ -0,0 +1,100 @@
+import * as assert from 'assert';
+import * as vscode from 'vscode';
+import { SmartJsonClosingBracketHandler } from '../handlers/smartJsonClosingBracketHandler';
+import { createEditorWithCursor } from './helpers/editorTestUtils';
+
+suite('SmartJsonClosingBracketHandler', () => {
+    let handler: SmartJsonClosingBracketHandler;
+
+    setup(() => {
+        handler = new SmartJsonClosingBracketHandler();
+    });
+
+    suite('Remove trailing comma', () => {
+        test('Closing object after property with comma - should remove comma', async () => {
+            const editor = await createEditorWithCursor('{\n  "name": "test",\n⌘', 'json');
+            await handler.execute(editor, '}');
+
+            const lines = editor.document.getText().split(/\r?\n/);
+            assert.strictEqual(lines[1], '  "name": "test"');
+            assert.strictEqual(lines[2].trim(), '}');
+        });
+
+        test('Closing array on the same line - should remove comma', async () => {
+            const editor = await createEditorWithCursor('[1, 2, ⌘', 'json');
+            await handler.execute(editor, ']');
+
+            assert.strictEqual(editor.document.getText(), '[1, 2 ]');
+        });
+
+        test('Blank lines between comma and cursor - should remove comma', async () => {
+            const editor = await createEditorWithCursor('[\n  1,\n\n⌘', 'json');
+            await handler.execute(editor, ']');
+
+            assert.strictEqual(editor.document.lineAt(1).text, '  1');
+        });
+
+        test('Comment after comma in JSONC - should remove comma and keep comment', async () => {
+            const editor = await createEditorWithCursor('{\n  "a": 1, // last\n⌘', 'jsonc');
+            await handler.execute(editor, '}');
+
+            assert.strictEqual(editor.document.lineAt(1).text, '  "a": 1 // last');
+        });
+
+        test('Block comment lines between comma and cursor in JSONC - should remove comma', async () => {
+            const editor = await createEditorWithCursor('[\n  1,\n  /* note,\n     more, */\n⌘', 'jsonc');
+            await handler.execute(editor, ']');
+
+            assert.strictEqual(editor.document.lineAt(1).text, '  1');
+            assert.strictEqual(editor.document.lineAt(2).text, '  /* note,');
+        });
+
+        test('No trailing comma - should just type bracket', async () => {
+            const editor = await createEditorWithCursor('{\n  "name": "test"\n⌘', 'json');
+            await handler.execute(editor, '}');
+
+            assert.strictEqual(editor.document.lineAt(1).text, '  "name": "test"');
+            assert.ok(editor.document.getText().endsWith('}'));
+        });
+
+        test('Comma inside string - should keep it', async () => {
+            const editor = await createEditorWithCursor('{\n  "name": "a,"\n⌘', 'json');
+            await handler.execute(editor, '}');
+
+            assert.strictEqual(editor.document.lineAt(1).text, '  "name": "a,"');
+        });
+
+        test('Bracket typed inside string - should keep comma', async () => {
+            const editor = await createEditorWithCursor('[\n  1,\n  "⌘', 'json');
+            await handler.execute(editor, ']');
+
+            assert.strictEqual(editor.document.lineAt(1).text, '  1,');
+        });
+
+        test('Non-JSON file - should keep comma', async () => {
+            const editor = await createEditorWithCursor('const a = [\n  1,\n⌘', 'typescript');
+            await handler.execute(editor, ']');
+
+            assert.strictEqual(editor.document.lineAt(1).text, '  1,');
+        });
+    });
+
+    suite('JSONC trailing commas', () => {
+        teardown(async () => {
+            await vscode.workspace
+                .getConfiguration('smart-keys', { languageId: 'jsonc' })
+                .update('json.allowTrailingCommas', undefined, vscode.ConfigurationTarget.Global, true);
+        });
+
+        test('Trailing commas allowed in JSONC - should keep comma', async () => {
+            await vscode.workspace
+                .getConfiguration('smart-keys', { languageId: 'jsonc' })
+                .update('json.allowTrailingCommas', true, vscode.ConfigurationTarget.Global, true);
+
+            const editor = await createEditorWithCursor('{\n  "a": 1,\n⌘', 'jsonc');
+            await handler.execute(editor, '}');
+
+            assert.strictEqual(editor.document.lineAt(1).text, '  "a": 1,');
+        });
+    });
+});
@@ -1,4 +1,8 @@
 import * as assert from 'assert';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import * as vscode from 'vscode';
 import { SmartJsonColonHandler } from '../handlers/smartJsonColonHandler';
 import { CURSOR, createEditorWithCursor } from './helpers/editorTestUtils';
 
@@ -381,4 +385,181 @@ suite('SmartJsonColonHandler', () => {
             assert.strictEqual(lines[1], ':', 'Should just type colon at line start');
         });
     });
+
+    suite('Missing comma on previous line', () => {
+        test('Should add comma after previous property value', async () => {
+            const content = '{\n  "a": 1\n  b⌘\n}';
+            const editor = await createEditorWithCursor(content, 'json');
+            await handler.execute(editor);
+
+            const lines = editor.document.getText().split(/\r?\n/);
+            assert.strictEqual(lines[1], '  "a": 1,');
+            assert.strictEqual(lines[2], '  "b": ');
+        });
+
+        test('Should add comma after nested object', async () => {
+            const content = '{\n  "a": {\n  }\n\n  "b"⌘\n}';
+            const editor = await createEditorWithCursor(content, 'json');
+            await handler.execute(editor);
+
+            assert.strictEqual(editor.document.lineAt(2).text, '  },');
+        });
+
+        test('Should NOT add comma after opening brace', async () => {
+            const content = '{\n  "b"⌘\n}';
+            const editor = await createEditorWithCursor(content, 'json');
+            await handler.execute(editor);
+
+            assert.strictEqual(editor.document.lineAt(0).text, '{');
+        });
+
+        test('Should NOT add comma when property does not start the line', async () => {
+            const content = '{\n  "a": 1\n  "x": { "b"⌘\n}';
+            const editor = await createEditorWithCursor(content, 'json');
+            await handler.execute(editor);
+
+            assert.strictEqual(editor.document.lineAt(1).text, '  "a": 1');
+        });
+    });
+
+    suite('Insert value by type', () => {
+        setup(async () => {
+            await vscode.workspace
+                .getConfiguration('smart-keys')
+                .update('json.insertValueByType', true, vscode.ConfigurationTarget.Global);
+        });
+
+        teardown(async () => {
+            await vscode.workspace
+                .getConfiguration('smart-keys')
+                .update('json.insertValueByType', undefined, vscode.ConfigurationTarget.Global);
+        });
+
+        test('Should insert quotes when sibling values are strings', async () => {
+            const content = '{\n  "a": "x",\n  "b"⌘\n}';
+            const editor = await createEditorWithCursor(content, 'json');
+            await handler.execute(editor);
+
+            assert.strictEqual(editor.document.lineAt(2).text, '  "b": ""');
+            assert.strictEqual(editor.selection.active.character, 8);
+        });
+
+        test('Should insert brackets when sibling values are arrays', async () => {
+            const content = '{\n  "a": [1],\n  "b"⌘\n  "c": []\n}';
+            const editor = await createEditorWithCursor(content, 'json');
+            await handler.execute(editor);
+
+            assert.strictEqual(editor.document.lineAt(2).text, '  "b": []');
+            assert.strictEqual(editor.selection.active.character, 8);
+        });
+
+        test('Should insert nothing when sibling values are numbers', async () => {
+            const content = '{\n  "a": 1,\n  "b"⌘\n}';
+            const editor = await createEditorWithCursor(content, 'json');
+            await handler.execute(editor);
+
+            assert.strictEqual(editor.document.lineAt(2).text, '  "b": ');
+        });
+
+        test('Should insert nothing when sibling values have mixed types', async () => {
+            const content = '{\n  "a": "x",\n  "c": {},\n  "b"⌘\n}';
+            const editor = await createEditorWithCursor(content, 'json');
+            await handler.execute(editor);
+
+            assert.strictEqual(editor.document.lineAt(3).text, '  "b": ');
+        });
+
+        test('Should insert nothing when text follows the cursor', async () => {
+            const content = '{\n  "a": "x",\n  "b"⌘ 1\n}';
+            const editor = await createEditorWithCursor(content, 'json');
+            await handler.execute(editor);
+
+            assert.ok(!editor.document.lineAt(2).text.includes('""'));
+        });
+    });
+
+    suite('JSON Schema property names', () => {
+        const schemaPath = path.join(os.tmpdir(), 'smart-keys-colon-test.schema.json');
+        const schemaUri = vscode.Uri.file(schemaPath).toString();
+
+        suiteSetup(() => {
+            fs.writeFileSync(schemaPath, JSON.stringify({
+                properties: {
+                    compilerOptions: {
+                        type: 'object',
+                        properties: { strict: { type: 'boolean' } },
+                        additionalProperties: false
+                    },
+                    watchOptions: {
+                        properties: { interval: { type: 'number' } }
+                    },
+                    env: {
+                        properties: { debug: { type: 'boolean' } },
+                        additionalProperties: { type: 'string' }
+                    }
+                },
+                additionalProperties: false
+            }));
+        });
+
+        suiteTeardown(() => {
+            fs.rmSync(schemaPath, { force: true });
+        });
+
+        test('Should correct case of a quoted property', async () => {
+            const content = `{\n  "$schema": "${schemaUri}",\n  "compileroptions"⌘\n}`;
+            const editor = await createEditorWithCursor(content, 'json');
+            await handler.execute(editor);
+
+            assert.strictEqual(editor.document.lineAt(2).text, '  "compilerOptions": ');
+            assert.strictEqual(editor.selection.active.character, 21);
+        });
+
+        test('Should correct case of an unquoted property in a nested object', async () => {
+            const content = `{\n  "$schema": "${schemaUri}",\n  "compilerOptions": {\n    STRICT⌘\n  }\n}`;
+            const editor = await createEditorWithCursor(content, 'json');
+            await handler.execute(editor);
+
+            assert.strictEqual(editor.document.lineAt(3).text, '    "strict": ');
+        });
+
+        test('Should correct case when schema does not restrict additional properties', async () => {
+            const content = `{\n  "$schema": "${schemaUri}",\n  "watchOptions": {\n    "INTERVAL"⌘\n  }\n}`;
+            const editor = await createEditorWithCursor(content, 'json');
+            await handler.execute(editor);
+
+            assert.strictEqual(editor.document.lineAt(3).text, '    "interval": ');
+        });
+
+        test('Should keep undeclared property as typed when schema allows additional properties', async () => {
+            const content = `{\n  "$schema": "${schemaUri}",\n  "env": {\n    "LOG_LEVEL"⌘\n  }\n}`;
+            const editor = await createEditorWithCursor(content, 'json');
+            await handler.execute(editor);
+
+            assert.strictEqual(editor.document.lineAt(3).text, '    "LOG_LEVEL": ');
+        });
+
+        test('Should keep unknown property as typed', async () => {
+            const content = `{\n  "$schema": "${schemaUri}",\n  "other"⌘\n}`;
+            const editor = await createEditorWithCursor(content, 'json');
+            await handler.execute(editor);
+
+            assert.strictEqual(editor.document.lineAt(2).text, '  "other": ');
+        });
+
+        test('Should correct case and insert value of the corrected property', async () => {
+            const config = vscode.workspace.getConfiguration('smart-keys');
+            await config.update('json.insertValueByType', true, vscode.ConfigurationTarget.Global);
+            try {
+                const content = `{\n  "$schema": "${schemaUri}",\n  "compileroptions"⌘\n}`;
+                const editor = await createEditorWithCursor(content, 'json');
+                await handler.execute(editor);
+
+                assert.strictEqual(editor.document.lineAt(2).text, '  "compilerOptions": {}');
+                assert.strictEqual(editor.selection.active.character, 22);
+            } finally {
+                await config.update('json.insertValueByType', undefined, vscode.ConfigurationTarget.Global);
+            }
+        });
+    });
 });
@@ -187,4 +187,73 @@ suite('SmartJsonCommaHandler', () => {
 			assert.strictEqual(lines.length, 3, 'Should not insert an extra newline');
 		});
 	});
+
+    suite('Structure-aware comma decisions', () => {
+        test('Should add comma after array item', async () => {
+            const content = '[\n  "a"⌘\n]';
+            const editor = await createEditorWithCursor(content, 'json');
+            await handler.execute(editor, { insertNewLine: false });
+
+            assert.strictEqual(editor.document.lineAt(1).text, '  "a",');
+        });
+
+        test('Should add comma after nested object closed on its own line', async () => {
+            const content = '{\n  "a": {\n    "b": 1\n  }⌘\n}';
+            const editor = await createEditorWithCursor(content, 'json');
+            await handler.execute(editor, { insertNewLine: false });
+
+            assert.strictEqual(editor.document.lineAt(3).text, '  },');
+        });
+
+        test('Should add comma after string value ending with brace', async () => {
+            const content = '{\n  "a": "x}"⌘\n}';
+            const editor = await createEditorWithCursor(content, 'json');
+            await handler.execute(editor, { insertNewLine: false });
+
+            assert.strictEqual(editor.document.lineAt(1).text, '  "a": "x}",');
+        });
+
+        test('Should add comma before trailing comment in JSONC', async () => {
+            const content = '{\n  "a": 1 // note⌘\n}';
+            const editor = await createEditorWithCursor(content, 'jsonc');
+            await handler.execute(editor, { insertNewLine: false });
+
+            assert.strictEqual(editor.document.lineAt(1).text, '  "a": 1, // note');
+        });
+
+        test('Should NOT add comma inside block comment', async () => {
+            const content = '{\n  /*\n  "a": 1⌘\n  */\n}';
+            const editor = await createEditorWithCursor(content, 'jsonc');
+            const inserted = await handler.execute(editor, { insertNewLine: false });
+
+            assert.strictEqual(inserted, false);
+            assert.strictEqual(editor.document.lineAt(2).text, '  "a": 1');
+        });
+
+        test('Should NOT add comma after property name without value', async () => {
+            const content = '{\n  "a"⌘\n}';
+            const editor = await createEditorWithCursor(content, 'json');
+            const inserted = await handler.execute(editor, { insertNewLine: false });
+
+            assert.strictEqual(inserted, false);
+        });
+
+        test('Should NOT add comma when cursor is before closing brace', async () => {
+            const content = '{\n  "a": {\n    "b": 1\n  ⌘}\n}';
+            const editor = await createEditorWithCursor(content, 'json');
+            const inserted = await handler.execute(editor, { insertNewLine: false });
+
+            assert.strictEqual(inserted, false);
+            assert.strictEqual(editor.document.lineAt(3).text, '  }');
+        });
+
+        test('Should NOT add comma when cursor is before closing bracket of inline array', async () => {
+            const content = '{\n  "list": [1, 2⌘]\n}';
+            const editor = await createEditorWithCursor(content, 'json');
+            const inserted = await handler.execute(editor, { insertNewLine: false });
+
+            assert.strictEqual(inserted, false);
+            assert.strictEqual(editor.document.lineAt(1).text, '  "list": [1, 2]');
+        });
+    });
 });
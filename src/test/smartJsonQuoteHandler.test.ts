@@ -0,0 +1,57 @@
+import * as assert from 'assert';
+import { SmartJsonQuoteHandler } from '../handlers/smartJsonQuoteHandler';
+import { createEditorWithCursor } from './helpers/editorTestUtils';
+
+suite('SmartJsonQuoteHandler', () => {
+    let handler: SmartJsonQuoteHandler;
+
+    setup(() => {
+        handler = new SmartJsonQuoteHandler();
+    });
+
+    suite('Missing comma on previous line', () => {
+        test('Quote at start of new property line - should add comma above', async () => {
+            const editor = await createEditorWithCursor('{\n  "a": "x"\n  ⌘\n}', 'json');
+            await handler.execute(editor);
+
+            const lines = editor.document.getText().split(/\r?\n/);
+            assert.strictEqual(lines[1], '  "a": "x",');
+            assert.ok(lines[2].startsWith('  "'));
+        });
+
+        test('Blank lines between properties - should add comma to last value', async () => {
+            const editor = await createEditorWithCursor('{\n  "a": true\n\n  ⌘\n}', 'jsonc');
+            await handler.execute(editor);
+
+            assert.strictEqual(editor.document.lineAt(1).text, '  "a": true,');
+        });
+
+        test('Previous line already has comma - should not add another', async () => {
+            const editor = await createEditorWithCursor('{\n  "a": 1,\n  ⌘\n}', 'json');
+            await handler.execute(editor);
+
+            assert.strictEqual(editor.document.lineAt(1).text, '  "a": 1,');
+        });
+
+        test('Quote after a colon - should not add comma', async () => {
+            const editor = await createEditorWithCursor('{\n  "a": 1\n  "b": ⌘\n}', 'json');
+            await handler.execute(editor);
+
+            assert.strictEqual(editor.document.lineAt(1).text, '  "a": 1');
+        });
+
+        test('Quote inside block comment in JSONC - should not add comma', async () => {
+            const editor = await createEditorWithCursor('{\n  "a": 1\n  /* disabled:\n⌘  "b": 2 */\n}', 'jsonc');
+            await handler.execute(editor);
+
+            assert.strictEqual(editor.document.lineAt(1).text, '  "a": 1');
+        });
+
+        test('Non-JSON file - should not add comma', async () => {
+            const editor = await createEditorWithCursor('{\n  "a": 1\n  ⌘\n}', 'typescript');
+            await handler.execute(editor);
+
+            assert.strictEqual(editor.document.lineAt(1).text, '  "a": 1');
+        });
+    });
+});
@@ -0,0 +1,171 @@
+import * as assert from 'assert';
+import { SmartMarkdownEnterHandler } from '../handlers/smartMarkdownEnterHandler';
+import { createEditorWithCursor } from './helpers/editorTestUtils';
+
+suite('SmartMarkdownEnterHandler', () => {
+    let handler: SmartMarkdownEnterHandler;
+
+    setup(() => {
+        handler = new SmartMarkdownEnterHandler();
+    });
+
+    suite('List continuation', () => {
+        test('Enter after bullet item - should continue bullet', async () => {
+            const editor = await createEditorWithCursor('- one⌘', 'markdown');
+            const handled = await handler.execute(editor);
+
+            assert.strictEqual(handled, true);
+            assert.strictEqual(editor.document.lineAt(1).text, '- ');
+            assert.strictEqual(editor.selection.active.line, 1);
+            assert.strictEqual(editor.selection.active.character, 2);
+        });
+
+        test('Enter after nested star item - should keep indent and bullet', async () => {
+            const editor = await createEditorWithCursor('- one\n  * two⌘', 'markdown');
+            await handler.execute(editor);
+
+            assert.strictEqual(editor.document.lineAt(2).text, '  * ');
+        });
+
+        test('Enter in middle of item - should move rest to new item', async () => {
+            const editor = await createEditorWithCursor('- one ⌘two', 'markdown');
+            await handler.execute(editor);
+
+            assert.strictEqual(editor.document.lineAt(0).text, '- one');
+            assert.strictEqual(editor.document.lineAt(1).text, '- two');
+        });
+
+        test('Enter after task item - should add unchecked task', async () => {
+            const editor = await createEditorWithCursor('- [x] done⌘', 'markdown');
+            await handler.execute(editor);
+
+            assert.strictEqual(editor.document.lineAt(1).text, '- [ ] ');
+            assert.strictEqual(editor.selection.active.character, 6);
+        });
+
+        test('Enter on empty item - should remove bullet', async () => {
+            const editor = await createEditorWithCursor('- one\n- ⌘', 'markdown');
+            await handler.execute(editor);
+
+            assert.strictEqual(editor.document.lineCount, 2);
+            assert.strictEqual(editor.document.lineAt(1).text, '');
+        });
+
+        test('Enter on empty task item - should remove bullet and checkbox', async () => {
+            const editor = await createEditorWithCursor('- [ ] ⌘', 'markdown');
+            await handler.execute(editor);
+
+            assert.strictEqual(editor.document.lineAt(0).text, '');
+        });
+
+        test('Cursor before list marker - should not handle', async () => {
+            const editor = await createEditorWithCursor('⌘- one', 'markdown');
+            const handled = await handler.execute(editor);
+
+            assert.strictEqual(handled, false);
+        });
+
+        test('Dash without space - should not continue', async () => {
+            const editor = await createEditorWithCursor('-flag⌘', 'markdown');
+            const handled = await handler.execute(editor);
+
+            assert.strictEqual(handled, false);
+        });
+
+        test('Number without delimiter - should not continue', async () => {
+            const editor = await createEditorWithCursor('2024 was a good year⌘', 'markdown');
+            const handled = await handler.execute(editor);
+
+            assert.strictEqual(handled, false);
+        });
+
+        test('List item inside fenced code block - should not continue', async () => {
+            const editor = await createEditorWithCursor('```md\n- one⌘\n```', 'markdown');
+            const handled = await handler.execute(editor);
+
+            assert.strictEqual(handled, false);
+        });
+
+        test('List item after closed tilde fence - should continue', async () => {
+            const editor = await createEditorWithCursor('~~~\ncode\n~~~\n- one⌘', 'markdown');
+            const handled = await handler.execute(editor);
+
+            assert.strictEqual(handled, true);
+        });
+
+        test('Thematic break - should not continue', async () => {
+            const editor = await createEditorWithCursor('* * *⌘', 'markdown');
+            const handled = await handler.execute(editor);
+
+            assert.strictEqual(handled, false);
+        });
+    });
+
+    suite('Ordered lists', () => {
+        test('Enter after numbered item - should increment number', async () => {
+            const editor = await createEditorWithCursor('1. one⌘', 'markdown');
+            await handler.execute(editor);
+
+            assert.strictEqual(editor.document.lineAt(1).text, '2. ');
+            assert.strictEqual(editor.selection.active.character, 3);
+        });
+
+        test('Parenthesis delimiter - should be kept', async () => {
+            const editor = await createEditorWithCursor('9) nine⌘', 'markdown');
+            await handler.execute(editor);
+
+            assert.strictEqual(editor.document.lineAt(1).text, '10) ');
+        });
+
+        test('Following items - should be renumbered', async () => {
+            const editor = await createEditorWithCursor('1. one⌘\n2. two\n   text\n\n3. three\n\nParagraph\n4. other', 'markdown');
+            await handler.execute(editor);
+
+            const lines = editor.document.getText().split(/\r?\n/);
+            assert.strictEqual(lines[1], '2. ');
+            assert.strictEqual(lines[2], '3. two');
+            assert.strictEqual(lines[5], '4. three');
+            assert.strictEqual(lines[8], '4. other');
+        });
+
+        test('Items inside code block of an item - should not be renumbered', async () => {
+            const editor = await createEditorWithCursor('1. one⌘\n2. two\n   ```\n2. literal\n   ```\n3. three', 'markdown');
+            await handler.execute(editor);
+
+            const lines = editor.document.getText().split(/\r?\n/);
+            assert.strictEqual(lines[2], '3. two');
+            assert.strictEqual(lines[4], '2. literal');
+            assert.strictEqual(lines[6], '4. three');
+        });
+    });
+
+    suite('Blockquotes', () => {
+        test('Enter in blockquote - should continue quote', async () => {
+            const editor = await createEditorWithCursor('> quote⌘', 'markdown');
+            await handler.execute(editor);
+
+            assert.strictEqual(editor.document.lineAt(1).text, '> ');
+        });
+
+        test('Enter on list item in blockquote - should continue both', async () => {
+            const editor = await createEditorWithCursor('> - item⌘', 'markdown');
+            await handler.execute(editor);
+
+            assert.strictEqual(editor.document.lineAt(1).text, '> - ');
+        });
+
+        test('Enter on empty nested quote - should remove innermost marker', async () => {
+            const editor = await createEditorWithCursor('> > ⌘', 'markdown');
+            await handler.execute(editor);
+
+            assert.strictEqual(editor.document.lineAt(0).text, '> ');
+        });
+    });
+
+    test('Non-Markdown file - should not handle', async () => {
+        const editor = await createEditorWithCursor('- one⌘', 'plaintext');
+        const handled = await handler.execute(editor);
+
+        assert.strictEqual(handled, false);
+    });
+});
@@ -0,0 +1,140 @@
+import * as assert from 'assert';
+import { SmartPythonEnterHandler } from '../handlers/smartPythonEnterHandler';
+import { createEditorWithCursor, createEditorWithMultipleCursors } from './helpers/editorTestUtils';
+
+suite('SmartPythonEnterHandler', () => {
+    let handler: SmartPythonEnterHandler;
+
+    setup(() => {
+        handler = new SmartPythonEnterHandler();
+    });
+
+    suite('Block headers', () => {
+        test('Enter after def - should indent', async () => {
+            const editor = await createEditorWithCursor('def f():⌘', 'python');
+            const handled = await handler.execute(editor);
+
+            assert.strictEqual(handled, true);
+            assert.strictEqual(editor.document.lineAt(1).text, '    ');
+            assert.strictEqual(editor.selection.active.line, 1);
+            assert.strictEqual(editor.selection.active.character, 4);
+        });
+
+        test('Enter after nested if with comment - should indent', async () => {
+            const editor = await createEditorWithCursor('def f():\n    if x:  # check⌘', 'python');
+            await handler.execute(editor);
+
+            assert.strictEqual(editor.document.lineAt(2).text, '        ');
+        });
+
+        test('Enter after multi-line header - should indent from its first line', async () => {
+            const editor = await createEditorWithCursor('def f(\n        a,\n):⌘', 'python');
+            await handler.execute(editor);
+
+            assert.strictEqual(editor.document.lineAt(3).text, '    ');
+        });
+
+        test('Colon in dict literal - should not be a block header', async () => {
+            const editor = await createEditorWithCursor('data = {\n    "key":⌘', 'python');
+            await handler.execute(editor);
+
+            assert.strictEqual(editor.document.lineAt(2).text, '    ');
+        });
+
+        test('Colon in string - should not be a block header', async () => {
+            const editor = await createEditorWithCursor('label = "if x:"⌘', 'python');
+            await handler.execute(editor);
+
+            assert.strictEqual(editor.document.lineAt(1).text, '');
+        });
+    });
+
+    suite('Block ends', () => {
+        test('Enter after return - should dedent', async () => {
+            const editor = await createEditorWithCursor('def f():\n    return 1⌘', 'python');
+            await handler.execute(editor);
+
+            assert.strictEqual(editor.document.lineAt(2).text, '');
+        });
+
+        test('Enter after pass in nested block - should dedent one level', async () => {
+            const editor = await createEditorWithCursor('class A:\n    def f(self):\n        pass⌘', 'python');
+            await handler.execute(editor);
+
+            assert.strictEqual(editor.document.lineAt(3).text, '    ');
+        });
+
+        test('Enter after multi-line return - should dedent from its first line', async () => {
+            const editor = await createEditorWithCursor('def f():\n    return (\n        1\n    )⌘', 'python');
+            await handler.execute(editor);
+
+            assert.strictEqual(editor.document.lineAt(4).text, '');
+        });
+    });
+
+    suite('Statements', () => {
+        test('Enter after plain statement - should keep indent', async () => {
+            const editor = await createEditorWithCursor('def f():\n    x = 1⌘', 'python');
+            await handler.execute(editor);
+
+            assert.strictEqual(editor.document.lineAt(2).text, '    ');
+        });
+
+        test('Enter after opening bracket - should indent without closing bracket', async () => {
+            const editor = await createEditorWithCursor('call(⌘)', 'python');
+            await handler.execute(editor);
+
+            assert.deepStrictEqual(editor.document.getText().split(/\r?\n/), ['call(', '    )']);
+        });
+
+        test('Enter in middle of line - should move rest with new indent', async () => {
+            const editor = await createEditorWithCursor('if x: ⌘y = 1', 'python');
+            await handler.execute(editor);
+
+            assert.deepStrictEqual(editor.document.getText().split(/\r?\n/), ['if x:', '    y = 1']);
+        });
+
+        test('Enter inside triple-quoted string - should not handle', async () => {
+            const editor = await createEditorWithCursor('text = """\nline⌘', 'python');
+            const handled = await handler.execute(editor);
+
+            assert.strictEqual(handled, false);
+        });
+
+        test('Non-Python file - should not handle', async () => {
+            const editor = await createEditorWithCursor('def f():⌘', 'plaintext');
+            const handled = await handler.execute(editor);
+
+            assert.strictEqual(handled, false);
+        });
+    });
+
+    suite('Multiple cursors', () => {
+        test('Enter with several cursors - should indent each from its own statement', async () => {
+            const editor = await createEditorWithMultipleCursors('def f():⌘\n    return 1⌘', 'python');
+            const handled = await handler.execute(editor);
+
+            assert.strictEqual(handled, true);
+            assert.strictEqual(editor.document.getText(), 'def f():\n    \n    return 1\n');
+            assert.deepStrictEqual(
+                editor.selections.map(selection => [selection.active.line, selection.active.character]),
+                [[1, 4], [3, 0]]
+            );
+        });
+
+        test('Cursor inside string - should get a plain newline', async () => {
+            const editor = await createEditorWithMultipleCursors('if x:⌘\ntext = """⌘\n"""', 'python');
+            const handled = await handler.execute(editor);
+
+            assert.strictEqual(handled, true);
+            assert.strictEqual(editor.document.getText(), 'if x:\n    \ntext = """\n\n"""');
+        });
+
+        test('All cursors inside strings - should not handle', async () => {
+            const editor = await createEditorWithMultipleCursors('a = """⌘\nb⌘\n"""', 'python');
+            const handled = await handler.execute(editor);
+
+            assert.strictEqual(handled, false);
+        });
+    });
+});
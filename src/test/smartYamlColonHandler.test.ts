@@ -0,0 +1,84 @@
+import * as assert from 'assert';
+import { SmartYamlColonHandler } from '../handlers/smartYamlColonHandler';
+import { createEditorWithCursor } from './helpers/editorTestUtils';
+
+suite('SmartYamlColonHandler', () => {
+    let handler: SmartYamlColonHandler;
+
+    setup(() => {
+        handler = new SmartYamlColonHandler();
+    });
+
+    suite('Whitespace after colon', () => {
+        test('Colon after key - should add space', async () => {
+            const editor = await createEditorWithCursor('name⌘', 'yaml');
+            await handler.execute(editor);
+
+            assert.strictEqual(editor.document.lineAt(0).text, 'name: ');
+            assert.strictEqual(editor.selection.active.character, 6);
+        });
+
+        test('Colon after key in entry of a list of mappings - should add space', async () => {
+            const editor = await createEditorWithCursor('items:\n  - name: a\n    size: 1\n  - name⌘', 'yaml');
+            await handler.execute(editor);
+
+            assert.strictEqual(editor.document.lineAt(3).text, '  - name: ');
+        });
+
+        test('Colon after scalar list entry - should insert plain colon', async () => {
+            const editor = await createEditorWithCursor('images:\n  - redis\n  - nginx⌘', 'yaml');
+            await handler.execute(editor);
+
+            assert.strictEqual(editor.document.lineAt(2).text, '  - nginx:');
+        });
+
+        test('Colon after only list entry - should insert plain colon', async () => {
+            const editor = await createEditorWithCursor('images:\n  - nginx⌘', 'yaml');
+            await handler.execute(editor);
+
+            assert.strictEqual(editor.document.lineAt(1).text, '  - nginx:');
+        });
+
+        test('Colon inside block scalar - should insert plain colon', async () => {
+            const editor = await createEditorWithCursor('run: |\n  echo start\n  note⌘', 'yaml');
+            await handler.execute(editor);
+
+            assert.strictEqual(editor.document.lineAt(2).text, '  note:');
+        });
+
+        test('Colon after block scalar ends - should add space', async () => {
+            const editor = await createEditorWithCursor('script: >-\n  echo start\nname⌘', 'yaml');
+            await handler.execute(editor);
+
+            assert.strictEqual(editor.document.lineAt(2).text, 'name: ');
+        });
+
+        test('Colon after quoted key - should add space', async () => {
+            const editor = await createEditorWithCursor('"my key"⌘', 'yaml');
+            await handler.execute(editor);
+
+            assert.strictEqual(editor.document.lineAt(0).text, '"my key": ');
+        });
+
+        test('Colon inside value - should insert plain colon', async () => {
+            const editor = await createEditorWithCursor('url: http⌘', 'yaml');
+            await handler.execute(editor);
+
+            assert.strictEqual(editor.document.lineAt(0).text, 'url: http:');
+        });
+
+        test('Colon inside comment - should insert plain colon', async () => {
+            const editor = await createEditorWithCursor('# note⌘', 'yaml');
+            await handler.execute(editor);
+
+            assert.strictEqual(editor.document.lineAt(0).text, '# note:');
+        });
+
+        test('Non-YAML file - should insert plain colon', async () => {
+            const editor = await createEditorWithCursor('name⌘', 'plaintext');
+            await handler.execute(editor);
+
+            assert.strictEqual(editor.document.lineAt(0).text, 'name:');
+        });
+    });
+});
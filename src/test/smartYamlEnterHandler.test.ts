@@ -0,0 +1,98 @@
+import * as assert from 'assert';
+import { SmartYamlEnterHandler } from '../handlers/smartYamlEnterHandler';
+import { createEditorWithCursor } from './helpers/editorTestUtils';
+
+suite('SmartYamlEnterHandler', () => {
+    let handler: SmartYamlEnterHandler;
+
+    setup(() => {
+        handler = new SmartYamlEnterHandler();
+    });
+
+    suite('Indent after key', () => {
+        test('Enter after key without value - should indent', async () => {
+            const editor = await createEditorWithCursor('server:⌘', 'yaml');
+            const handled = await handler.execute(editor);
+
+            assert.strictEqual(handled, true);
+            assert.strictEqual(editor.document.lineAt(1).text, '  ');
+            assert.strictEqual(editor.selection.active.line, 1);
+            assert.strictEqual(editor.selection.active.character, 2);
+        });
+
+        test('Enter after block scalar header - should indent', async () => {
+            const editor = await createEditorWithCursor('script: |⌘', 'yaml');
+            await handler.execute(editor);
+
+            assert.strictEqual(editor.document.lineAt(1).text, '  ');
+        });
+
+        test('Enter after key in list entry - should indent past bullet', async () => {
+            const editor = await createEditorWithCursor('- server:⌘', 'yaml');
+            await handler.execute(editor);
+
+            assert.strictEqual(editor.document.lineAt(1).text, '    ');
+        });
+
+        test('Enter after key with value - should not indent', async () => {
+            const editor = await createEditorWithCursor('name: app⌘', 'yaml');
+            const handled = await handler.execute(editor);
+
+            assert.strictEqual(handled, false);
+        });
+
+        test('Colon inside comment - should not indent', async () => {
+            const editor = await createEditorWithCursor('name: app  # see:⌘', 'yaml');
+            const handled = await handler.execute(editor);
+
+            assert.strictEqual(handled, false);
+        });
+
+        test('Colon inside quoted value - should not indent', async () => {
+            const editor = await createEditorWithCursor('title: "Note:"⌘', 'yaml');
+            const handled = await handler.execute(editor);
+
+            assert.strictEqual(handled, false);
+        });
+    });
+
+    suite('List continuation', () => {
+        test('Enter after list entry - should continue list', async () => {
+            const editor = await createEditorWithCursor('items:\n  - one⌘', 'yaml');
+            await handler.execute(editor);
+
+            assert.strictEqual(editor.document.lineAt(2).text, '  - ');
+            assert.strictEqual(editor.selection.active.character, 4);
+        });
+
+        test('Enter in middle of list entry - should move rest to new entry', async () => {
+            const editor = await createEditorWithCursor('- one ⌘two', 'yaml');
+            await handler.execute(editor);
+
+            assert.strictEqual(editor.document.lineAt(0).text, '- one');
+            assert.strictEqual(editor.document.lineAt(1).text, '- two');
+        });
+
+        test('Cursor before bullet - should not continue list', async () => {
+            const editor = await createEditorWithCursor('items:\n  ⌘- one', 'yaml');
+            const handled = await handler.execute(editor);
+
+            assert.strictEqual(handled, false);
+        });
+
+        test('Enter on empty list entry - should remove bullet and dedent', async () => {
+            const editor = await createEditorWithCursor('items:\n  - one\n  - ⌘', 'yaml');
+            await handler.execute(editor);
+
+            assert.strictEqual(editor.document.lineCount, 3);
+            assert.strictEqual(editor.document.lineAt(2).text, '');
+        });
+
+        test('Non-YAML file - should not handle', async () => {
+            const editor = await createEditorWithCursor('- one⌘', 'plaintext');
+            const handled = await handler.execute(editor);
+
+            assert.strictEqual(handled, false);
+        });
+    });
+});
@@ -0,0 +1,108 @@
+import * as assert from 'assert';
+import {
+    buildStringSplit,
+    getStringConcatenation,
+    getStringPrefix,
+    isCharLiteralDelimiter,
+    isEscapedPosition,
+    isInsideInterpolation
+} from '../utils/stringHelpers';
+
+suite('StringHelpers', () => {
+    suite('getStringConcatenation', () => {
+        test('Uses plus in TypeScript', () => {
+            assert.strictEqual(getStringConcatenation('typescript'), '+');
+        });
+
+        test('Uses dot in PHP', () => {
+            assert.strictEqual(getStringConcatenation('php'), '.');
+        });
+
+        test('Returns null for unsupported languages', () => {
+            assert.strictEqual(getStringConcatenation('json'), null);
+            assert.strictEqual(getStringConcatenation(undefined), null);
+        });
+    });
+
+    suite('isEscapedPosition', () => {
+        test('Single backslash escapes', () => {
+            assert.strictEqual(isEscapedPosition('"a\\n"', 3), true);
+        });
+
+        test('Double backslash does not escape', () => {
+            assert.strictEqual(isEscapedPosition('"a\\\\n"', 4), false);
+        });
+
+        test('Start of line is not escaped', () => {
+            assert.strictEqual(isEscapedPosition('abc', 0), false);
+        });
+    });
+
+    suite('buildStringSplit', () => {
+        test('Adds operator between literals', () => {
+            assert.strictEqual(buildStringSplit('"', '+', '    '), '" +\n    "');
+        });
+
+        test('Omits operator for implicit concatenation', () => {
+            assert.strictEqual(buildStringSplit('"', '', '  '), '"\n  "');
+        });
+
+        test('Reopens literal with its prefix', () => {
+            assert.strictEqual(buildStringSplit('"', '\\', '    ', 'f'), '" \\\n    f"');
+        });
+    });
+
+    suite('getStringPrefix', () => {
+        test('Plain literal has empty prefix', () => {
+            assert.strictEqual(getStringPrefix('x = "a"', 4, 'python'), '');
+        });
+
+        test('Python prefixes are returned', () => {
+            assert.strictEqual(getStringPrefix('x = f"a"', 5, 'python'), 'f');
+            assert.strictEqual(getStringPrefix('x = rb"a"', 6, 'python'), 'rb');
+        });
+
+        test('C# interpolated verbatim prefix is returned', () => {
+            assert.strictEqual(getStringPrefix('s = $@"a"', 6, 'csharp'), '$@');
+        });
+
+        test('Unsupported prefix returns null', () => {
+            assert.strictEqual(getStringPrefix('s = R"(a)"', 5, 'cpp'), null);
+            assert.strictEqual(getStringPrefix('s = f"a"', 5, 'typescript'), null);
+        });
+
+        test('Identifier ending with prefix letter is not a prefix', () => {
+            assert.strictEqual(getStringPrefix('self"a"', 4, 'python'), null);
+        });
+    });
+
+    suite('isCharLiteralDelimiter', () => {
+        test('Single quote is a char literal in Java', () => {
+            assert.strictEqual(isCharLiteralDelimiter('\'', 'java'), true);
+        });
+
+        test('Single quote is a string in TypeScript and Python', () => {
+            assert.strictEqual(isCharLiteralDelimiter('\'', 'typescript'), false);
+            assert.strictEqual(isCharLiteralDelimiter('\'', 'python'), false);
+        });
+
+        test('Double quote is never a char literal', () => {
+            assert.strictEqual(isCharLiteralDelimiter('"', 'java'), false);
+        });
+    });
+
+    suite('isInsideInterpolation', () => {
+        test('Open brace in f-string is an interpolation', () => {
+            assert.strictEqual(isInsideInterpolation('f', 'a{x'), true);
+        });
+
+        test('Closed and escaped braces are not', () => {
+            assert.strictEqual(isInsideInterpolation('f', 'a{x}b'), false);
+            assert.strictEqual(isInsideInterpolation('$', 'a{{'), false);
+        });
+
+        test('Braces in a plain literal are text', () => {
+            assert.strictEqual(isInsideInterpolation('', 'a{x'), false);
+        });
+    });
+});
@@ -0,0 +1,116 @@
+import * as assert from 'assert';
+import { getLanguageSyntax, scanLine, scanLines, createScannerState, findCodeEnd, getStateAt } from '../utils/syntaxScanner';
+
+/**
+ * Collect code characters of the given lines as a single string per line.
+ */
+function codeOf(lines: string[], languageId?: string): string[] {
+    const result = lines.map(() => '');
+    scanLines(lines, getLanguageSyntax(languageId), (char, line) => {
+        result[line] += char;
+    });
+    return result;
+}
+
+suite('SyntaxScanner', () => {
+    suite('getLanguageSyntax', () => {
+        test('TypeScript supports template strings and regex literals', () => {
+            const syntax = getLanguageSyntax('typescript');
+            assert.strictEqual(syntax.templateStrings, true);
+            assert.strictEqual(syntax.regexLiterals, true);
+        });
+
+        test('Python uses hash comments', () => {
+            assert.deepStrictEqual(getLanguageSyntax('python').lineComments, ['#']);
+        });
+
+        test('Unknown language falls back to C-like rules', () => {
+            const syntax = getLanguageSyntax('unknown-language');
+            assert.deepStrictEqual(syntax.lineComments, ['//']);
+            assert.strictEqual(syntax.regexLiterals, false);
+        });
+    });
+
+    suite('scanLine', () => {
+        test('Skips double and single quoted strings', () => {
+            assert.deepStrictEqual(codeOf(['a "b" \'c\' d'], 'typescript'), ['a   d']);
+        });
+
+        test('Skips line comments', () => {
+            assert.deepStrictEqual(codeOf(['a // b'], 'typescript'), ['a ']);
+        });
+
+        test('Block comment state carries to next line', () => {
+            const syntax = getLanguageSyntax('typescript');
+            const state = scanLine('a /* b', createScannerState(), syntax);
+            assert.strictEqual(state.mode, 'blockComment');
+
+            assert.deepStrictEqual(codeOf(['a /* b', 'c */ d'], 'typescript'), ['a ', ' d']);
+        });
+
+        test('Unterminated plain string ends at line end', () => {
+            const syntax = getLanguageSyntax('typescript');
+            const state = scanLine('const s = "abc', createScannerState(), syntax);
+            assert.strictEqual(state.mode, 'code');
+        });
+
+        test('Template literal spans lines', () => {
+            assert.deepStrictEqual(codeOf(['a `b', 'c` d'], 'typescript'), ['a ', ' d']);
+        });
+
+        test('Template substitution is scanned as code', () => {
+            assert.deepStrictEqual(codeOf(['`a ${b} c`'], 'typescript'), ['b']);
+        });
+
+        test('Regex literal after assignment is skipped', () => {
+            assert.deepStrictEqual(codeOf(['x = /{/g;'], 'javascript'), ['x = g;']);
+        });
+
+        test('Slash after identifier is division', () => {
+            assert.deepStrictEqual(codeOf(['a / b / c'], 'javascript'), ['a / b / c']);
+        });
+
+        test('Python triple-quoted string spans lines', () => {
+            assert.deepStrictEqual(codeOf(['x = """{', '}""" + y'], 'python'), ['x = ', ' + y']);
+        });
+
+        test('Plain text has no strings or comments', () => {
+            assert.deepStrictEqual(codeOf(['don\'t // {'], 'plaintext'), ['don\'t // {']);
+        });
+    });
+
+    suite('findCodeEnd', () => {
+        const syntax = getLanguageSyntax('typescript');
+
+        test('Excludes trailing whitespace and line comment', () => {
+            assert.strictEqual(findCodeEnd(['foo(a)   // done'], 0, syntax), 6);
+        });
+
+        test('Includes string literal at end of code', () => {
+            assert.strictEqual(findCodeEnd(['log("a // b")  '], 0, syntax), 13);
+        });
+
+        test('Returns 0 for comment-only line', () => {
+            assert.strictEqual(findCodeEnd(['    /* note */'], 0, syntax), 0);
+        });
+
+        test('Respects block comment from previous line', () => {
+            assert.strictEqual(findCodeEnd(['/* start', 'end */ x = 1'], 1, syntax), 12);
+        });
+    });
+
+    suite('getStateAt', () => {
+        const syntax = getLanguageSyntax('typescript');
+
+        test('Position inside string keeps string open', () => {
+            const state = getStateAt('const s = "abc";', createScannerState(), syntax, 13);
+            assert.strictEqual(state.mode, 'string');
+            assert.strictEqual(state.closing, '"');
+        });
+
+        test('Position after string is code', () => {
+            const state = getStateAt('const s = "abc";', createScannerState(), syntax, 15);
+            assert.strictEqual(state.mode, 'code');
+        });
+    });
+});
@@ -1,83 +1,54 @@
+import { createScannerState, getLanguageSyntax, scanLine } from './syntaxScanner';
+
 /**
- * Count unmatched opening braces in the document.
+ * Opening brackets mapped to their closing counterparts.
  */
-export function countUnmatchedBraces(lines: string[]): number {
-	const stack: Array<{ line: number; char: number }> = [];
-
-	lines.forEach((lineText, lineNumber) => {
-		for (let charIndex = 0; charIndex < lineText.length; charIndex++) {
-			const char = lineText.charAt(charIndex);
-
-			if (char === '{') {
-				stack.push({ line: lineNumber, char: charIndex });
-			} else if (char === '}') {
-				if (stack.length > 0) {
-					stack.pop();
-				}
-			}
-		}
-	});
-
-	return stack.length;
-}
+export const BRACKET_PAIRS: Readonly<Record<string, string>> = {
+	'{': '}',
+	'[': ']',
+	'(': ')'
+};
 
 /**
- * Check if a specific opening brace remains unmatched after parsing.
+ * Check whether a character is a supported opening bracket.
  */
-export function isBraceUnmatched(
-	lines: string[],
-	targetLine: number,
-	targetChar: number
-): boolean {
-	const stack: Array<{ line: number; char: number }> = [];
-
-	for (let lineNumber = 0; lineNumber < lines.length; lineNumber++) {
-		const lineText = lines[lineNumber];
-
-		for (let charIndex = 0; charIndex < lineText.length; charIndex++) {
-			const char = lineText.charAt(charIndex);
-
-			if (char === '{') {
-				stack.push({ line: lineNumber, char: charIndex });
-			} else if (char === '}' && stack.length > 0) {
-				stack.pop();
-			}
-		}
-	}
-
-	return stack.some(
-		position => position.line === targetLine && position.char === targetChar
-	);
+export function isOpeningBracket(char: string): boolean {
+	return Object.prototype.hasOwnProperty.call(BRACKET_PAIRS, char);
 }
 
 /**
- * Decide whether to insert a closing brace for the given opening brace.
- * Insert if:
- * - the brace is unmatched, or
- * - removing it decreases the count of unmatched braces (code balances with its closing).
+ * Find the bracket closing the given opening bracket within the same line.
+ * Returns -1 if the bracket is not closed on this line.
  */
-export function shouldInsertClosingBrace(
-	lines: string[],
-	targetLine: number,
-	targetChar: number
-): boolean {
-	if (targetLine < 0 || targetLine >= lines.length) {
-		return false;
+export function findClosingBracketOnLine(
+	lineText: string,
+	openCharIndex: number,
+	languageId?: string
+): number {
+	const openChar = lineText.charAt(openCharIndex);
+	const closeChar = BRACKET_PAIRS[openChar];
+	if (!closeChar) {
+		return -1;
 	}
 
-	const lineText = lines[targetLine];
-	if (targetChar < 0 || targetChar >= lineText.length || lineText.charAt(targetChar) !== '{') {
-		return false;
-	}
+	let depth = 0;
+	let closingIndex = -1;
+	const textAfter = lineText.slice(openCharIndex + 1);
 
-	if (isBraceUnmatched(lines, targetLine, targetChar)) {
-		return true;
-	}
-
-	const unmatchedBefore = countUnmatchedBraces(lines);
-	const modifiedLines = [...lines];
-	modifiedLines[targetLine] = lineText.slice(0, targetChar) + lineText.slice(targetChar + 1);
-	const unmatchedAfterRemoval = countUnmatchedBraces(modifiedLines);
+	scanLine(textAfter, createScannerState(), getLanguageSyntax(languageId), (char, charIndex) => {
+		if (closingIndex !== -1) {
+			return;
+		}
+		if (char === openChar) {
+			depth++;
+		} else if (char === closeChar) {
+			if (depth === 0) {
+				closingIndex = openCharIndex + 1 + charIndex;
+			} else {
+				depth--;
+			}
+		}
+	});
 
-	return unmatchedAfterRemoval < unmatchedBefore;
+	return closingIndex;
 }
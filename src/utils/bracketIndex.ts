@@ -0,0 +1,561 @@
+import * as vscode from 'vscode';
+import { BRACKET_PAIRS, isOpeningBracket } from './braceHelpers';
+import {
+	createScannerState,
+	findLineCodeEnd,
+	getLanguageSyntax,
+	getStateAt,
+	LanguageSyntax,
+	scanLine,
+	ScannerState
+} from './syntaxScanner';
+
+/**
+ * Effect of a text segment on a bracket stack: how many closers it pops from
+ * text before it, and how many openers it leaves for text after it.
+ */
+interface BracketBalance {
+	unmatchedClosing: number;
+	unmatchedOpening: number;
+}
+
+type BalanceSet = Record<string, BracketBalance>;
+
+interface LineEntry {
+	endState: ScannerState;
+	balances: BalanceSet;
+}
+
+interface LineChunk {
+	lines: Array<LineEntry | null>;
+	balances: BalanceSet | null;
+}
+
+/**
+ * Minimal document shape needed to build an index.
+ */
+export interface IndexableDocument {
+	readonly lineCount: number;
+	readonly languageId: string;
+	readonly version: number;
+	lineAt(line: number): { readonly text: string };
+}
+
+/**
+ * Minimal content change shape (compatible with `vscode.TextDocumentContentChangeEvent`).
+ */
+export interface IndexableChange {
+	readonly range: { readonly start: { readonly line: number }; readonly end: { readonly line: number } };
+	readonly text: string;
+}
+
+/**
+ * Smallest chunk size, so that short documents are not split into tiny chunks.
+ */
+const MIN_CHUNK_SIZE = 32;
+const OPENING_BRACKETS = Object.keys(BRACKET_PAIRS);
+
+function emptyBalances(): BalanceSet {
+	const balances: BalanceSet = {};
+	for (const openChar of OPENING_BRACKETS) {
+		balances[openChar] = { unmatchedClosing: 0, unmatchedOpening: 0 };
+	}
+	return balances;
+}
+
+/**
+ * Combine balances of two adjacent segments (left followed by right).
+ */
+function combineBalance(left: BracketBalance, right: BracketBalance): BracketBalance {
+	const matched = Math.min(left.unmatchedOpening, right.unmatchedClosing);
+	return {
+		unmatchedClosing: left.unmatchedClosing + right.unmatchedClosing - matched,
+		unmatchedOpening: left.unmatchedOpening - matched + right.unmatchedOpening
+	};
+}
+
+function combineBalances(left: BalanceSet, right: BalanceSet): BalanceSet {
+	const balances: BalanceSet = {};
+	for (const openChar of OPENING_BRACKETS) {
+		balances[openChar] = combineBalance(left[openChar], right[openChar]);
+	}
+	return balances;
+}
+
+function statesEqual(a: ScannerState, b: ScannerState): boolean {
+	return a.mode === b.mode &&
+		a.closing === b.closing &&
+		a.templateDepths.length === b.templateDepths.length &&
+		a.templateDepths.every((depth, index) => depth === b.templateDepths[index]);
+}
+
+/**
+ * Scan a line and compute its bracket balances.
+ */
+function scanLineBalances(
+	lineText: string,
+	startState: ScannerState,
+	syntax: LanguageSyntax,
+	onCodeChar?: (char: string, charIndex: number) => void
+): LineEntry {
+	const balances = emptyBalances();
+
+	const endState = scanLine(lineText, startState, syntax, (char, charIndex) => {
+		onCodeChar?.(char, charIndex);
+
+		if (isOpeningBracket(char)) {
+			balances[char].unmatchedOpening++;
+			return;
+		}
+
+		const openChar = OPENING_BRACKETS.find(open => BRACKET_PAIRS[open] === char);
+		if (!openChar) {
+			return;
+		}
+
+		const balance = balances[openChar];
+		if (balance.unmatchedOpening > 0) {
+			balance.unmatchedOpening--;
+		} else {
+			balance.unmatchedClosing++;
+		}
+	});
+
+	return { endState, balances };
+}
+
+/**
+ * Target chunk size for a document: about sqrt(n) lines, so that there are about sqrt(n) chunks.
+ */
+function getChunkSize(lineCount: number): number {
+	return Math.max(MIN_CHUNK_SIZE, Math.ceil(Math.sqrt(lineCount)));
+}
+
+/**
+ * Per-document index of bracket balances, updated incrementally from content changes.
+ * Lines are grouped into chunks of about sqrt(n) lines so that both updates and
+ * queries touch only O(sqrt(n)) chunk summaries instead of rescanning the whole document.
+ */
+export class BracketIndex {
+	private chunks: LineChunk[] = [];
+	private chunkSize = MIN_CHUNK_SIZE;
+	private syntax: LanguageSyntax;
+	public languageId: string;
+	public version: number;
+
+	constructor(document: IndexableDocument) {
+		this.languageId = document.languageId;
+		this.version = document.version;
+		this.syntax = getLanguageSyntax(document.languageId);
+		this.rebuild(document);
+	}
+
+	/**
+	 * Number of indexed lines.
+	 */
+	public get lineCount(): number {
+		return this.chunks.reduce((sum, chunk) => sum + chunk.lines.length, 0);
+	}
+
+	/**
+	 * Rebuild the whole index from the document.
+	 */
+	public rebuild(document: IndexableDocument): void {
+		this.languageId = document.languageId;
+		this.version = document.version;
+		this.syntax = getLanguageSyntax(document.languageId);
+		this.chunks = [];
+		this.chunkSize = getChunkSize(document.lineCount);
+
+		let state = createScannerState();
+		let chunk: LineChunk = { lines: [], balances: null };
+
+		for (let lineNumber = 0; lineNumber < document.lineCount; lineNumber++) {
+			const entry = scanLineBalances(document.lineAt(lineNumber).text, state, this.syntax);
+			state = entry.endState;
+
+			chunk.lines.push(entry);
+			if (chunk.lines.length === this.chunkSize) {
+				this.chunks.push(chunk);
+				chunk = { lines: [], balances: null };
+			}
+		}
+
+		if (chunk.lines.length > 0 || this.chunks.length === 0) {
+			this.chunks.push(chunk);
+		}
+	}
+
+	/**
+	 * Apply content changes reported for the document. The document must
+	 * already contain the changes (as in `onDidChangeTextDocument`).
+	 */
+	public applyChanges(
+		document: IndexableDocument,
+		changes: readonly IndexableChange[]
+	): void {
+		// Apply bottom-up so that earlier ranges stay valid in old coordinates
+		const sortedChanges = [...changes].sort((a, b) => b.range.start.line - a.range.start.line);
+		const dirtyRanges: Array<{ start: number; count: number }> = [];
+
+		for (const change of sortedChanges) {
+			const startLine = change.range.start.line;
+			const removedCount = change.range.end.line - startLine + 1;
+			const insertedCount = change.text.split(/\r\n|\r|\n/).length;
+			const delta = insertedCount - removedCount;
+
+			this.splice(startLine, removedCount, insertedCount);
+
+			// Ranges recorded so far are below this change and shift with it
+			for (const range of dirtyRanges) {
+				range.start += delta;
+			}
+			dirtyRanges.push({ start: startLine, count: insertedCount });
+		}
+
+		this.version = document.version;
+
+		if (this.lineCount !== document.lineCount) {
+			this.rebuild(document);
+			return;
+		}
+
+		dirtyRanges.sort((a, b) => a.start - b.start);
+		for (const range of dirtyRanges) {
+			this.rescan(document, range.start, range.start + range.count - 1);
+		}
+	}
+
+	/**
+	 * Decide whether to insert a closing bracket for the opening bracket at
+	 * the given position, treating the line as truncated right after it.
+	 */
+	public shouldInsertClosingBracket(lineText: string, targetLine: number, targetChar: number): boolean {
+		const openChar = lineText.charAt(targetChar);
+		if (targetLine < 0 || targetLine >= this.lineCount || !isOpeningBracket(openChar)) {
+			return false;
+		}
+
+		const startState = this.getLineStartState(targetLine);
+		let isCode = false;
+		const withBracket = scanLineBalances(
+			lineText.slice(0, targetChar + 1),
+			startState,
+			this.syntax,
+			(_char, charIndex) => {
+				isCode = isCode || charIndex === targetChar;
+			}
+		).balances[openChar];
+
+		if (!isCode) {
+			return false;
+		}
+
+		const suffix = this.rangeBalance(targetLine + 1, this.lineCount)[openChar];
+
+		// The bracket is on top of the stack after its line: it stays unmatched
+		// unless the rest of the document closes something
+		if (suffix.unmatchedClosing === 0) {
+			return true;
+		}
+
+		const withoutBracket = scanLineBalances(
+			lineText.slice(0, targetChar),
+			startState,
+			this.syntax
+		).balances[openChar];
+		const prefix = this.rangeBalance(0, targetLine)[openChar];
+
+		const unmatchedBefore = combineBalance(combineBalance(prefix, withBracket), suffix).unmatchedOpening;
+		const unmatchedAfterRemoval = combineBalance(combineBalance(prefix, withoutBracket), suffix).unmatchedOpening;
+
+		return unmatchedAfterRemoval < unmatchedBefore;
+	}
+
+	/**
+	 * Find opening brackets of every kind on a line that stay unmatched in the document, ordered by position.
+	 */
+	public findUnmatchedBracketsOnLine(lineText: string, targetLine: number): Array<{ char: number; openChar: string }> {
+		if (targetLine < 0 || targetLine >= this.lineCount) {
+			return [];
+		}
+
+		// Openers left on the line after matching closers on the same line
+		const open: Record<string, number[]> = {};
+		for (const openChar of OPENING_BRACKETS) {
+			open[openChar] = [];
+		}
+		scanLine(lineText, this.getLineStartState(targetLine), this.syntax, (char, charIndex) => {
+			if (isOpeningBracket(char)) {
+				open[char].push(charIndex);
+				return;
+			}
+			const openChar = OPENING_BRACKETS.find(candidate => BRACKET_PAIRS[candidate] === char);
+			if (openChar) {
+				open[openChar].pop();
+			}
+		});
+
+		// Closers after the line match the innermost of them first
+		const suffix = this.rangeBalance(targetLine + 1, this.lineCount);
+		return OPENING_BRACKETS
+			.flatMap(openChar => open[openChar]
+				.slice(0, Math.max(0, open[openChar].length - suffix[openChar].unmatchedClosing))
+				.map(char => ({ char, openChar })))
+			.sort((a, b) => a.char - b.char);
+	}
+
+	/**
+	 * Find where code ends on a line, ignoring trailing comments and whitespace.
+	 * Returns 0 when the line contains no code.
+	 */
+	public findCodeEnd(lineText: string, targetLine: number): number {
+		return findLineCodeEnd(lineText, this.getLineStartState(targetLine), this.syntax);
+	}
+
+	/**
+	 * Scanner state right before the given character, e.g. to tell whether it is inside a comment or string.
+	 */
+	public getScannerState(lineText: string, targetLine: number, targetChar: number): ScannerState {
+		return getStateAt(lineText, this.getLineStartState(targetLine), this.syntax, targetChar);
+	}
+
+	/**
+	 * Scanner state at the start of a line.
+	 */
+	public getLineStartState(line: number): ScannerState {
+		return line > 0 && line <= this.lineCount ? this.getEntry(line - 1).endState : createScannerState();
+	}
+
+	/**
+	 * Number of brackets of any kind opened before a line and not closed yet.
+	 */
+	public getOpenBracketCount(line: number): number {
+		const balances = this.rangeBalance(0, Math.min(line, this.lineCount));
+		return OPENING_BRACKETS.reduce((sum, openChar) => sum + balances[openChar].unmatchedOpening, 0);
+	}
+
+	/**
+	 * Locate the chunk holding a line. A line equal to the line count maps
+	 * to the end of the last chunk.
+	 */
+	private locate(line: number): { chunkIndex: number; offset: number } {
+		let offset = line;
+		for (let chunkIndex = 0; chunkIndex < this.chunks.length; chunkIndex++) {
+			const length = this.chunks[chunkIndex].lines.length;
+			if (offset < length || chunkIndex === this.chunks.length - 1) {
+				return { chunkIndex, offset };
+			}
+			offset -= length;
+		}
+		return { chunkIndex: 0, offset: 0 };
+	}
+
+	private getEntry(line: number): LineEntry {
+		const { chunkIndex, offset } = this.locate(line);
+		const entry = this.chunks[chunkIndex].lines[offset];
+		if (!entry) {
+			throw new Error(`Bracket index line ${line} is not scanned`);
+		}
+		return entry;
+	}
+
+	private setEntry(line: number, entry: LineEntry): void {
+		const { chunkIndex, offset } = this.locate(line);
+		const chunk = this.chunks[chunkIndex];
+		chunk.lines[offset] = entry;
+		chunk.balances = null;
+	}
+
+	/**
+	 * Replace `removedCount` lines starting at `startLine` with `insertedCount` unscanned lines.
+	 */
+	private splice(startLine: number, removedCount: number, insertedCount: number): void {
+		const { chunkIndex, offset } = this.locate(startLine);
+
+		let remaining = removedCount;
+		let currentChunk = chunkIndex;
+		let currentOffset = offset;
+		while (remaining > 0 && currentChunk < this.chunks.length) {
+			const chunk = this.chunks[currentChunk];
+			const removed = chunk.lines.splice(currentOffset, remaining).length;
+			chunk.balances = null;
+			remaining -= removed;
+			currentChunk++;
+			currentOffset = 0;
+		}
+
+		const target = this.chunks[chunkIndex];
+		target.lines.splice(offset, 0, ...new Array<null>(insertedCount).fill(null));
+		target.balances = null;
+
+		this.normalizeChunks();
+	}
+
+	/**
+	 * Resize chunks to the current line count: drop empty chunks, merge
+	 * undersized neighbours and split oversized ones.
+	 */
+	private normalizeChunks(): void {
+		this.chunkSize = getChunkSize(this.lineCount);
+		const chunks: LineChunk[] = [];
+
+		for (const chunk of this.chunks) {
+			if (chunk.lines.length === 0) {
+				continue;
+			}
+
+			const previous = chunks[chunks.length - 1];
+			if (previous && previous.lines.length + chunk.lines.length <= this.chunkSize) {
+				previous.lines.push(...chunk.lines);
+				previous.balances = null;
+				continue;
+			}
+
+			if (chunk.lines.length <= this.chunkSize * 2) {
+				chunks.push(chunk);
+				continue;
+			}
+			for (let start = 0; start < chunk.lines.length; start += this.chunkSize) {
+				chunks.push({ lines: chunk.lines.slice(start, start + this.chunkSize), balances: null });
+			}
+		}
+
+		this.chunks = chunks.length > 0 ? chunks : [{ lines: [], balances: null }];
+	}
+
+	/**
+	 * Rescan lines of a changed range, then keep going until the scanner
+	 * state at a line end matches what was stored before the change.
+	 */
+	private rescan(document: IndexableDocument, firstLine: number, lastLine: number): void {
+		let state = firstLine > 0 ? this.getEntry(firstLine - 1).endState : createScannerState();
+
+		for (let lineNumber = firstLine; lineNumber < document.lineCount; lineNumber++) {
+			const { chunkIndex, offset } = this.locate(lineNumber);
+			const previous = this.chunks[chunkIndex].lines[offset];
+			const entry = scanLineBalances(document.lineAt(lineNumber).text, state, this.syntax);
+
+			this.setEntry(lineNumber, entry);
+			state = entry.endState;
+
+			if (lineNumber >= lastLine && previous && statesEqual(previous.endState, entry.endState)) {
+				break;
+			}
+		}
+	}
+
+	/**
+	 * Combined balance of lines in [startLine, endLine).
+	 */
+	private rangeBalance(startLine: number, endLine: number): BalanceSet {
+		let result = emptyBalances();
+		let chunkStart = 0;
+
+		for (const chunk of this.chunks) {
+			const chunkEnd = chunkStart + chunk.lines.length;
+
+			if (chunkEnd > startLine && chunkStart < endLine) {
+				if (chunkStart >= startLine && chunkEnd <= endLine) {
+					result = combineBalances(result, this.getChunkBalances(chunk));
+				} else {
+					const from = Math.max(startLine, chunkStart) - chunkStart;
+					const to = Math.min(endLine, chunkEnd) - chunkStart;
+					for (let offset = from; offset < to; offset++) {
+						result = combineBalances(result, this.requireEntry(chunk, offset).balances);
+					}
+				}
+			}
+
+			chunkStart = chunkEnd;
+		}
+
+		return result;
+	}
+
+	private getChunkBalances(chunk: LineChunk): BalanceSet {
+		if (!chunk.balances) {
+			let balances = emptyBalances();
+			for (let offset = 0; offset < chunk.lines.length; offset++) {
+				balances = combineBalances(balances, this.requireEntry(chunk, offset).balances);
+			}
+			chunk.balances = balances;
+		}
+		return chunk.balances;
+	}
+
+	private requireEntry(chunk: LineChunk, offset: number): LineEntry {
+		const entry = chunk.lines[offset];
+		if (!entry) {
+			throw new Error('Bracket index contains unscanned lines');
+		}
+		return entry;
+	}
+}
+
+/**
+ * Bracket indexes for open documents, keyed by document URI.
+ */
+export class BracketIndexCache {
+	private indexes = new Map<string, BracketIndex>();
+
+	/**
+	 * Get an up-to-date index for the document, (re)building it when needed.
+	 */
+	public get(document: vscode.TextDocument): BracketIndex {
+		const uri = document.uri.toString();
+		const index = this.indexes.get(uri);
+
+		if (!index) {
+			const created = new BracketIndex(document);
+			this.indexes.set(uri, created);
+			return created;
+		}
+
+		if (
+			index.version !== document.version ||
+			index.languageId !== document.languageId ||
+			index.lineCount !== document.lineCount
+		) {
+			index.rebuild(document);
+		}
+
+		return index;
+	}
+
+	/**
+	 * Update an existing index from a document change event.
+	 */
+	public update(event: vscode.TextDocumentChangeEvent): void {
+		const index = this.indexes.get(event.document.uri.toString());
+		if (!index || event.contentChanges.length === 0) {
+			return;
+		}
+
+		// Already rebuilt from this version by `get` (e.g. during the command that made the change)
+		if (index.version === event.document.version) {
+			return;
+		}
+
+		if (index.languageId !== event.document.languageId) {
+			index.rebuild(event.document);
+			return;
+		}
+
+		index.applyChanges(event.document, event.contentChanges);
+	}
+
+	/**
+	 * Forget the index of a document.
+	 */
+	public delete(documentUri: string): void {
+		this.indexes.delete(documentUri);
+	}
+
+	/**
+	 * Forget all indexes.
+	 */
+	public clear(): void {
+		this.indexes.clear();
+	}
+}
@@ -31,6 +31,65 @@ export function setCursorPositions(
 	}
 }
 
+/**
+ * Move the active end of each selection, keeping its anchor in place.
+ */
+export function extendSelections(
+	editor: vscode.TextEditor,
+	selections: readonly vscode.Selection[],
+	positions: Array<{ line: number; character: number }>
+): void {
+	editor.selections = selections.map((selection, index) => {
+		const position = new vscode.Position(positions[index].line, positions[index].character);
+		return new vscode.Selection(selection.anchor, position);
+	});
+
+	if (positions.length > 0) {
+		const firstPos = new vscode.Position(positions[0].line, positions[0].character);
+		editor.revealRange(new vscode.Range(firstPos, firstPos), vscode.TextEditorRevealType.Default);
+	}
+}
+
+/**
+ * Map a position through non-overlapping edits expressed in the original document coordinates.
+ * Positions inside a replaced range move to its start; positions at or after its end shift with it.
+ */
+export function mapPositionThroughEdits(
+	position: vscode.Position,
+	edits: ReadonlyArray<{ range: vscode.Range; text: string }>
+): vscode.Position {
+	// Apply bottom-up so that ranges of the remaining edits stay valid
+	const sortedEdits = [...edits].sort((a, b) => b.range.start.compareTo(a.range.start));
+	let line = position.line;
+	let character = position.character;
+
+	for (const { range, text } of sortedEdits) {
+		const current = new vscode.Position(line, character);
+		if (current.isBefore(range.start)) {
+			continue;
+		}
+		if (current.isBefore(range.end)) {
+			line = range.start.line;
+			character = range.start.character;
+			continue;
+		}
+
+		const insertedLines = text.split(/\r\n|\r|\n/);
+		const lastInsertedLength = insertedLines[insertedLines.length - 1].length;
+		const endLine = range.start.line + insertedLines.length - 1;
+		const endCharacter = insertedLines.length === 1
+			? range.start.character + lastInsertedLength
+			: lastInsertedLength;
+
+		if (line === range.end.line) {
+			character = endCharacter + (character - range.end.character);
+		}
+		line = endLine + (line - range.end.line);
+	}
+
+	return new vscode.Position(line, character);
+}
+
 /**
  * Check whether cursor is in the indent zone (before first non-space char).
  */
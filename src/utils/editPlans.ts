@@ -0,0 +1,64 @@
+import * as vscode from 'vscode';
+import { mapPositionThroughEdits, setCursorPosition, setCursorPositions } from './cursorHelpers';
+
+/**
+ * Edits for a single cursor and where the cursor should land,
+ * both expressed in the coordinates of the document before editing.
+ */
+export interface EditPlan {
+	edits: Array<{ range: vscode.Range; text: string }>;
+	cursor: vscode.Position;
+}
+
+/**
+ * Apply a plan for a single cursor.
+ */
+export async function applyEditPlan(editor: vscode.TextEditor, plan: EditPlan): Promise<void> {
+	await editor.edit(editBuilder => {
+		for (const edit of plan.edits) {
+			editBuilder.replace(edit.range, edit.text);
+		}
+	});
+
+	const cursor = mapPositionThroughEdits(plan.cursor, plan.edits);
+	setCursorPosition(editor, cursor.line, cursor.character);
+}
+
+/**
+ * Apply plans of several cursors in a single edit and place every cursor.
+ * Returns false without editing when plans of different cursors touch the same text.
+ */
+export async function applyEditPlans(editor: vscode.TextEditor, plans: EditPlan[]): Promise<boolean> {
+	const taggedEdits = plans
+		.flatMap((plan, planIndex) => plan.edits.map(edit => ({ ...edit, planIndex })))
+		.sort((a, b) => a.range.start.compareTo(b.range.start));
+
+	const hasConflict = taggedEdits.some((edit, index) => {
+		if (index === 0) {
+			return false;
+		}
+		const previous = taggedEdits[index - 1];
+		return previous.planIndex === edit.planIndex
+			? previous.range.end.isAfter(edit.range.start)
+			: previous.range.end.isAfterOrEqual(edit.range.start);
+	});
+	if (hasConflict) {
+		return false;
+	}
+
+	// Apply all edits at once
+	await editor.edit(editBuilder => {
+		for (const edit of taggedEdits) {
+			editBuilder.replace(edit.range, edit.text);
+		}
+	});
+
+	// Recompute cursor positions accounting for lines changed by every cursor
+	const newPositions = plans.map(plan => {
+		const cursor = mapPositionThroughEdits(plan.cursor, taggedEdits);
+		return { line: cursor.line, character: cursor.character };
+	});
+
+	setCursorPositions(editor, newPositions);
+	return true;
+}
@@ -1,4 +1,7 @@
 import * as vscode from 'vscode';
+import { getIndentationRules, IndentationRules } from './indentRules';
+import { getLanguageConfigurationRules } from './languageConfiguration';
+import { getSmartKeysConfiguration } from '../configuration';
 
 /**
  * Find the first non-empty line above the given one.
@@ -23,10 +26,26 @@ export function findPreviousNonEmptyLine(
 /**
  * Check whether indent should increase based on the line text.
  */
-export function shouldIncreaseIndent(lineText: string): boolean {
+export function shouldIncreaseIndent(
+	lineText: string,
+	rules: IndentationRules = getIndentationRules()
+): boolean {
 	const trimmedLine = lineText.trim();
 
-	return /[{:(\[]\s*$/.test(trimmedLine) || isHtmlLikeOpeningTag(trimmedLine);
+	return rules.increaseIndentPattern.test(trimmedLine) ||
+		(rules.indentHtmlTags && isHtmlLikeOpeningTag(trimmedLine));
+}
+
+/**
+ * Get indentation rules for a document, including user-defined rules from settings
+ * and rules from the language configuration.
+ */
+export function getDocumentIndentationRules(document: vscode.TextDocument): IndentationRules {
+	return getIndentationRules(
+		document.languageId,
+		getSmartKeysConfiguration(document).indentationRules,
+		getLanguageConfigurationRules(document.languageId)
+	);
 }
 
 /**
@@ -66,7 +85,41 @@ export function getIndentFromLine(lineText: string): string {
 }
 
 /**
- * Calculate correct indent based on the previous non-empty line.
+ * Remove one indent level from the end of an indent string.
+ */
+export function decreaseIndent(indent: string, editor: vscode.TextEditor): string {
+	if (indent.endsWith('\t')) {
+		return indent.slice(0, -1);
+	}
+
+	const tabSize = editor.options.tabSize as number || 4;
+	const trailingSpaces = indent.length - indent.replace(/ +$/, '').length;
+
+	return indent.slice(0, indent.length - Math.min(trailingSpaces, tabSize));
+}
+
+/**
+ * Remove indentation back to the previous tab stop: one tab, or the spaces
+ * after the last tab stop (a whole indent unit when the indent is aligned).
+ */
+export function decreaseIndentToTabStop(indent: string, editor: vscode.TextEditor): string {
+	if (indent.endsWith('\t')) {
+		return indent.slice(0, -1);
+	}
+
+	const tabSize = editor.options.tabSize as number || 4;
+	const trailingSpaces = indent.length - indent.replace(/ +$/, '').length;
+	const column = [...indent].reduce(
+		(width, char) => char === '\t' ? width + tabSize - width % tabSize : width + 1,
+		0
+	);
+
+	return indent.slice(0, indent.length - Math.min(trailingSpaces, (column - 1) % tabSize + 1));
+}
+
+/**
+ * Calculate correct indent based on the previous non-empty line
+ * and the content of the current line.
  */
 export function calculateIndent(
 	editor: vscode.TextEditor,
@@ -82,14 +135,23 @@ export function calculateIndent(
 		return '';
 	}
 
+	const rules = getDocumentIndentationRules(document);
 	const prevIndent = getIndentFromLine(prevLineInfo.text);
-	
-	if (!shouldIncreaseIndent(prevLineInfo.text)) {
-		return prevIndent;
+	const currentText = currentLine < document.lineCount ? document.lineAt(currentLine).text : '';
+	const indent = shouldIncreaseIndent(prevLineInfo.text, rules)
+		? prevIndent + getIndentUnit(editor)
+		: prevIndent;
+
+	// A closing token on the current line (`}`, `else:`, `</div>`) and a line ending
+	// the block above (`return` in Python) both dedent only once
+	const closesBlock = currentText.trim().length > 0 && (rules.decreaseIndentPattern?.test(currentText) ?? false);
+	const endsBlock = rules.dedentAfterPattern?.test(prevLineInfo.text) ?? false;
+
+	if (closesBlock || (endsBlock && indent === prevIndent)) {
+		return decreaseIndent(indent, editor);
 	}
 
-	// Increase indent
-	return prevIndent + getIndentUnit(editor);
+	return indent;
 }
 
 /**
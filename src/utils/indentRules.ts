@@ -0,0 +1,146 @@
+/**
+ * Patterns deciding when the line after a given line is indented or dedented.
+ */
+export interface IndentationRules {
+	/** Matches lines after which the indent increases. */
+	increaseIndentPattern: RegExp;
+	/** Matches lines that are indented one level less than the block they close. */
+	decreaseIndentPattern: RegExp | null;
+	/** Matches lines after which the indent decreases, such as `return` in Python. */
+	dedentAfterPattern: RegExp | null;
+	/** Whether HTML/JSX-like opening tags increase the indent. */
+	indentHtmlTags: boolean;
+}
+
+/**
+ * User-defined rules for a language as written in settings.
+ */
+export interface IndentationRuleSetting {
+	increaseIndentPattern?: string;
+	decreaseIndentPattern?: string;
+	dedentAfterPattern?: string;
+	indentHtmlTags?: boolean;
+}
+
+/**
+ * Rules read from a language configuration; missing rules keep the built-in ones.
+ */
+export type LanguageIndentationRules = Partial<Pick<
+	IndentationRules,
+	'increaseIndentPattern' | 'decreaseIndentPattern' | 'dedentAfterPattern'
+>>;
+
+const DEFAULT_RULES: IndentationRules = {
+	increaseIndentPattern: /[{:(\[]\s*$/,
+	decreaseIndentPattern: /^\s*(?:[}\])]|<\/)/,
+	dedentAfterPattern: null,
+	indentHtmlTags: true
+};
+
+const PYTHON_RULES: IndentationRules = {
+	increaseIndentPattern: /^\s*(?:(?:async\s+)?(?:def|for|while|with)|class|if|elif|else|try|except|finally|match|case)\b.*:\s*(?:#.*)?$|[{(\[]\s*$/,
+	decreaseIndentPattern: /^\s*(?:(?:elif|else|except|finally)\b.*:|[}\])])/,
+	dedentAfterPattern: /^\s*(?:return|pass|break|continue|raise)\b/,
+	indentHtmlTags: false
+};
+
+const RUBY_RULES: IndentationRules = {
+	increaseIndentPattern: /^\s*(?!.*\bend\s*$)(?:def|class|module|if|unless|while|until|for|case|begin|else|elsif|when|rescue|ensure)\b|\bdo\s*(?:\|[^|]*\|)?\s*$|[{(\[]\s*$/,
+	decreaseIndentPattern: /^\s*(?:(?:end|else|elsif|when|rescue|ensure)\b|[}\])])/,
+	dedentAfterPattern: null,
+	indentHtmlTags: false
+};
+
+const LUA_RULES: IndentationRules = {
+	increaseIndentPattern: /^\s*(?!.*\bend\b)(?:(?:local\s+)?function|repeat|else)\b|\b(?:then|do)\s*$|\bfunction\s*\([^)]*\)\s*$|[{(\[]\s*$/,
+	decreaseIndentPattern: /^\s*(?:(?:end|else|elseif|until)\b|[}\])])/,
+	dedentAfterPattern: null,
+	indentHtmlTags: false
+};
+
+const SHELL_RULES: IndentationRules = {
+	increaseIndentPattern: /\b(?:then|do|in)\s*$|^\s*else\s*$|[{(]\s*$/,
+	decreaseIndentPattern: /^\s*(?:(?:fi|done|esac|else|elif)\b|[})])/,
+	dedentAfterPattern: null,
+	indentHtmlTags: false
+};
+
+const YAML_RULES: IndentationRules = {
+	increaseIndentPattern: /:\s*(?:[|>][-+]?)?\s*(?:#.*)?$|[{\[]\s*$/,
+	decreaseIndentPattern: /^\s*[}\]]/,
+	dedentAfterPattern: null,
+	indentHtmlTags: false
+};
+
+const JSON_RULES: IndentationRules = {
+	increaseIndentPattern: /[{\[]\s*$/,
+	decreaseIndentPattern: /^\s*[}\]]/,
+	dedentAfterPattern: null,
+	indentHtmlTags: false
+};
+
+const CSS_RULES: IndentationRules = {
+	increaseIndentPattern: /[{(]\s*$/,
+	decreaseIndentPattern: /^\s*[})]/,
+	dedentAfterPattern: null,
+	indentHtmlTags: false
+};
+
+const BUILT_IN_RULES: Record<string, IndentationRules> = {
+	python: PYTHON_RULES,
+	ruby: RUBY_RULES,
+	lua: LUA_RULES,
+	shellscript: SHELL_RULES,
+	yaml: YAML_RULES,
+	json: JSON_RULES,
+	jsonc: JSON_RULES,
+	css: CSS_RULES,
+	scss: CSS_RULES,
+	less: CSS_RULES
+};
+
+/**
+ * Compile a user pattern, falling back when it is missing or invalid.
+ */
+function compilePattern(source: string | undefined, fallback: RegExp | null): RegExp | null {
+	if (source === undefined) {
+		return fallback;
+	}
+
+	try {
+		return new RegExp(source);
+	} catch {
+		return fallback;
+	}
+}
+
+/**
+ * Get indentation rules for a language: user-defined rules from settings
+ * take precedence over the language configuration, then built-in rules,
+ * which fall back to generic bracket rules.
+ */
+export function getIndentationRules(
+	languageId?: string,
+	userRules: Readonly<Record<string, IndentationRuleSetting>> = {},
+	languageRules?: LanguageIndentationRules
+): IndentationRules {
+	const knownRules = languageId && Object.prototype.hasOwnProperty.call(BUILT_IN_RULES, languageId)
+		? BUILT_IN_RULES[languageId]
+		: DEFAULT_RULES;
+	const builtIn = languageRules ? { ...knownRules, ...languageRules } : knownRules;
+
+	const userRule = languageId && Object.prototype.hasOwnProperty.call(userRules, languageId)
+		? userRules[languageId]
+		: undefined;
+	if (!userRule) {
+		return builtIn;
+	}
+
+	return {
+		increaseIndentPattern: compilePattern(userRule.increaseIndentPattern, builtIn.increaseIndentPattern)
+			?? builtIn.increaseIndentPattern,
+		decreaseIndentPattern: compilePattern(userRule.decreaseIndentPattern, builtIn.decreaseIndentPattern),
+		dedentAfterPattern: compilePattern(userRule.dedentAfterPattern, builtIn.dedentAfterPattern),
+		indentHtmlTags: userRule.indentHtmlTags ?? builtIn.indentHtmlTags
+	};
+}
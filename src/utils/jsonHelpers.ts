@@ -1,4 +1,12 @@
 import * as vscode from 'vscode';
+import { JsonContainerInfo, JsonDocumentScan, JsonValueType } from './jsonScanner';
+import { getSchemaValueType, lookupSchemaProperty, SchemaPropertyLookup } from './jsonSchema';
+import { getDocumentSchema } from './jsonSchemaLoader';
+
+/**
+ * Scans of JSON documents, keyed by document URI, with the version they are up to date with.
+ */
+const documentScans = new Map<string, { version: number; scan: JsonDocumentScan }>();
 
 /**
  * Determine whether document is JSON or JSON with comments.
@@ -6,3 +14,121 @@ import * as vscode from 'vscode';
 export function isJsonDocument(document: vscode.TextDocument): boolean {
 	return document.languageId === 'json' || document.languageId === 'jsonc';
 }
+
+/**
+ * Get the scan of a document, starting over when it missed a change.
+ */
+function getDocumentScan(document: vscode.TextDocument): JsonDocumentScan {
+	const uri = document.uri.toString();
+	const cached = documentScans.get(uri);
+	if (cached?.version === document.version) {
+		return cached.scan;
+	}
+
+	const scan = new JsonDocumentScan();
+	documentScans.set(uri, { version: document.version, scan });
+	return scan;
+}
+
+/**
+ * Keep the scan of a JSON document in sync with its edits: results before the first changed line stay valid.
+ */
+export function updateJsonDocumentScan(event: vscode.TextDocumentChangeEvent): void {
+	const uri = event.document.uri.toString();
+	const cached = documentScans.get(uri);
+	if (!cached || event.contentChanges.length === 0) {
+		return;
+	}
+
+	const firstChangedLine = Math.min(...event.contentChanges.map(change => change.range.start.line));
+	cached.scan.invalidateFrom(firstChangedLine);
+	cached.version = event.document.version;
+}
+
+/**
+ * Drop the scan of a closed document.
+ */
+export function deleteJsonDocumentScan(documentUri: string): void {
+	documentScans.delete(documentUri);
+}
+
+/**
+ * Drop the scans of all documents.
+ */
+export function clearJsonDocumentScans(): void {
+	documentScans.clear();
+}
+
+/**
+ * Find where a comma is missing after the value ending on a line.
+ * Returns null when the line ends no value, or the value is last in a container already followed by a comma.
+ */
+export function findMissingComma(document: vscode.TextDocument, line: number): vscode.Position | null {
+	const { commaPosition } = getDocumentScan(document).getLineInfo(document, line);
+	return commaPosition === -1 ? null : new vscode.Position(line, commaPosition);
+}
+
+/**
+ * Find the previous sibling of a line that ends with a value but lacks a comma.
+ * Returns the position right after that value, or null when no comma is missing.
+ */
+export function findMissingCommaBefore(document: vscode.TextDocument, line: number): vscode.Position | null {
+	const scan = getDocumentScan(document);
+
+	// Skip blank and comment-only lines
+	for (let previous = line - 1; previous >= 0; previous--) {
+		const { hasCode, commaPosition } = scan.getLineInfo(document, previous);
+		if (hasCode) {
+			return commaPosition === -1 ? null : new vscode.Position(previous, commaPosition);
+		}
+	}
+
+	return null;
+}
+
+/**
+ * Find the object or array enclosing a position, or null at the top level.
+ */
+export function getJsonContainer(document: vscode.TextDocument, position: vscode.Position): JsonContainerInfo | null {
+	return getDocumentScan(document).getContainerAt(document, position.line, position.character);
+}
+
+/**
+ * Guess the type of the value of a property being added to a container:
+ * the JSON Schema of the document decides first, then the other values of the same object
+ * when they all share one type.
+ */
+export async function getExpectedValueType(
+	document: vscode.TextDocument,
+	container: JsonContainerInfo | null,
+	propertyName: string
+): Promise<JsonValueType | null> {
+	if (container?.kind !== 'object') {
+		return null;
+	}
+
+	const schema = await getDocumentSchema(document);
+	const schemaType = schema ? getSchemaValueType(schema, [...container.path, propertyName]) : null;
+	if (schemaType) {
+		return schemaType;
+	}
+
+	const siblingTypes = new Set(container.memberTypes);
+	return siblingTypes.size === 1 ? [...siblingTypes][0] : null;
+}
+
+/**
+ * Check a property name being added to a container against the JSON Schema of the document.
+ */
+export async function lookupPropertyName(
+	document: vscode.TextDocument,
+	container: JsonContainerInfo | null,
+	propertyName: string
+): Promise<SchemaPropertyLookup> {
+	if (container?.kind !== 'object') {
+		return { kind: 'undescribed' };
+	}
+
+	const schema = await getDocumentSchema(document);
+	return schema ? lookupSchemaProperty(schema, container.path, propertyName) : { kind: 'undescribed' };
+}
@@ -0,0 +1,378 @@
+import { createScannerState, getLanguageSyntax, getStateAt, scanLine, ScannerState } from './syntaxScanner';
+
+/**
+ * Type of a JSON value.
+ */
+export type JsonValueType = 'string' | 'number' | 'boolean' | 'null' | 'object' | 'array';
+
+/**
+ * Property names and array indices leading from the document root to a value.
+ */
+export type JsonPath = Array<string | number>;
+
+/**
+ * Structure of a JSON line as seen by the scanner.
+ */
+export interface JsonLineInfo {
+	/** Whether the line holds any code (not only whitespace and comments). */
+	hasCode: boolean;
+	/** Index where a comma separating the value ending on the line from its next sibling belongs, or -1. */
+	commaPosition: number;
+}
+
+/**
+ * Object or array enclosing a position.
+ */
+export interface JsonContainerInfo {
+	kind: 'object' | 'array';
+	/** Path of the container itself. */
+	path: JsonPath;
+	/** Distinct types of the member values of the container, including those after the position, in order of appearance. */
+	memberTypes: JsonValueType[];
+}
+
+/**
+ * Minimal line access needed to scan a document.
+ */
+export interface JsonLineSource {
+	readonly lineCount: number;
+	lineAt(line: number): { readonly text: string };
+}
+
+interface JsonToken {
+	kind: '{' | '}' | '[' | ']' | ':' | ',' | 'string' | 'scalar';
+	/** Index of the last character of the token. */
+	end: number;
+	/** Property name or literal text for string and scalar tokens. */
+	text: string;
+}
+
+/**
+ * What an open object or array expects next.
+ */
+type JsonExpectation = 'key' | 'colon' | 'value' | 'comma';
+
+interface JsonFrame {
+	kind: 'object' | 'array';
+	expect: JsonExpectation;
+	/** Property name or array index of the member being read. */
+	key: string | number | null;
+	memberTypes: JsonValueType[];
+}
+
+const JSON_SYNTAX = getLanguageSyntax('jsonc');
+
+/**
+ * Lines between saved scan states, bounding the rescan needed to reach any line.
+ */
+const CHECKPOINT_INTERVAL = 64;
+
+/**
+ * Split a line into JSON tokens, skipping whitespace, comments and string contents.
+ */
+function tokenizeLine(
+	lineText: string,
+	state: ScannerState
+): { tokens: JsonToken[]; state: ScannerState; hasCode: boolean } {
+	const tokens: JsonToken[] = [];
+	let hasCode = false;
+	let scalarStart = -1;
+	let codeEnd = 0;
+
+	// Numbers, literals and unquoted names end at whitespace or structural characters
+	const finishScalar = (end: number): void => {
+		if (scalarStart !== -1) {
+			tokens.push({ kind: 'scalar', end: end - 1, text: lineText.slice(scalarStart, end) });
+			scalarStart = -1;
+		}
+	};
+
+	const endState = scanLine(
+		lineText,
+		state,
+		JSON_SYNTAX,
+		(char, charIndex) => {
+			codeEnd = charIndex + 1;
+			if (/\s/.test(char)) {
+				finishScalar(charIndex);
+				return;
+			}
+
+			hasCode = true;
+			if (!'{}[]:,'.includes(char)) {
+				scalarStart = scalarStart === -1 ? charIndex : scalarStart;
+				return;
+			}
+
+			finishScalar(charIndex);
+			tokens.push({ kind: char as JsonToken['kind'], end: charIndex, text: char });
+		},
+		charIndex => {
+			finishScalar(codeEnd);
+			hasCode = true;
+
+			const start = lineText.indexOf('"', codeEnd);
+			const literal = lineText.slice(start, charIndex + 1);
+			let text: string;
+			try {
+				text = JSON.parse(literal);
+			} catch {
+				text = literal.slice(1, literal.endsWith('"') && literal.length > 1 ? -1 : undefined);
+			}
+
+			tokens.push({ kind: 'string', end: charIndex, text });
+			codeEnd = charIndex + 1;
+		}
+	);
+	finishScalar(lineText.length);
+
+	return { tokens, state: endState, hasCode };
+}
+
+/**
+ * Get the type of a string or scalar token value.
+ */
+function getScalarType(token: JsonToken): JsonValueType | null {
+	if (token.kind === 'string') {
+		return 'string';
+	}
+	if (token.text === 'true' || token.text === 'false') {
+		return 'boolean';
+	}
+	if (token.text === 'null') {
+		return 'null';
+	}
+	return /^-?\d/.test(token.text) ? 'number' : null;
+}
+
+/**
+ * Tracks object and array nesting while JSON tokens are fed in document order.
+ */
+class JsonStructure {
+	public readonly stack: JsonFrame[];
+
+	constructor(stack: JsonFrame[] = []) {
+		this.stack = stack;
+	}
+
+	public get top(): JsonFrame | undefined {
+		return this.stack[this.stack.length - 1];
+	}
+
+	/**
+	 * Copy the nesting so that it can be fed independently.
+	 */
+	public clone(): JsonStructure {
+		return new JsonStructure(this.stack.map(frame => ({ ...frame, memberTypes: [...frame.memberTypes] })));
+	}
+
+	/**
+	 * Feed a token. Returns true when it completes a value.
+	 */
+	public push(token: JsonToken): boolean {
+		const frame = this.top;
+
+		switch (token.kind) {
+			case '{':
+			case '[':
+				this.stack.push({
+					kind: token.kind === '{' ? 'object' : 'array',
+					expect: token.kind === '{' ? 'key' : 'value',
+					key: token.kind === '{' ? null : 0,
+					memberTypes: []
+				});
+				return false;
+			case '}':
+			case ']':
+				this.stack.pop();
+				this.completeValue(token.kind === '}' ? 'object' : 'array', null);
+				return true;
+			case ':':
+				if (frame?.kind === 'object') {
+					frame.expect = 'value';
+				}
+				return false;
+			case ',':
+				if (frame?.kind === 'object') {
+					frame.expect = 'key';
+					frame.key = null;
+				} else if (frame) {
+					frame.expect = 'value';
+					frame.key = typeof frame.key === 'number' ? frame.key + 1 : 0;
+				}
+				return false;
+			default:
+				this.completeValue(getScalarType(token), token);
+				return true;
+		}
+	}
+
+	/**
+	 * Record a complete value (string, scalar, object or array) in the enclosing container.
+	 */
+	private completeValue(type: JsonValueType | null, token: JsonToken | null): void {
+		const frame = this.top;
+		if (!frame) {
+			return;
+		}
+
+		if (frame.kind === 'array' || frame.expect === 'value') {
+			if (type && !frame.memberTypes.includes(type)) {
+				frame.memberTypes.push(type);
+			}
+			frame.expect = 'comma';
+		} else {
+			// A key, or a new key after a value missing its comma
+			frame.key = token ? token.text : null;
+			frame.expect = 'colon';
+		}
+	}
+}
+
+/**
+ * Scan state at the start of a line.
+ */
+interface JsonCheckpoint {
+	state: ScannerState;
+	structure: JsonStructure;
+}
+
+/**
+ * Incremental scan of a JSON/JSONC document, tracking object and array nesting, strings
+ * and comments. Results are kept until a line changes, so that queries near the cursor
+ * only rescan from the last change instead of from the start of the document.
+ */
+export class JsonDocumentScan {
+	private lineInfos: JsonLineInfo[] = [];
+	/** Checkpoint `k` holds the scan state at the start of line `k * CHECKPOINT_INTERVAL`. */
+	private checkpoints: JsonCheckpoint[] = [{ state: createScannerState(), structure: new JsonStructure() }];
+	/** Scan state at the start of the first line without info. */
+	private frontier: JsonCheckpoint = { state: createScannerState(), structure: new JsonStructure() };
+
+	/**
+	 * Drop results from a changed line on.
+	 */
+	public invalidateFrom(line: number): void {
+		if (line >= this.lineInfos.length) {
+			return;
+		}
+
+		const checkpointIndex = Math.min(Math.floor(line / CHECKPOINT_INTERVAL), this.checkpoints.length - 1);
+		const checkpoint = this.checkpoints[checkpointIndex];
+		this.checkpoints.length = checkpointIndex + 1;
+		this.lineInfos.length = checkpointIndex * CHECKPOINT_INTERVAL;
+		this.frontier = { state: checkpoint.state, structure: checkpoint.structure.clone() };
+	}
+
+	/**
+	 * Get line infos up to `lastLine`, reporting for each line whether it ends a value lacking a comma.
+	 */
+	public getLineInfos(document: JsonLineSource, lastLine: number): JsonLineInfo[] {
+		this.scanTo(document, Math.min(lastLine, document.lineCount - 1));
+		return this.lineInfos.slice(0, lastLine + 1);
+	}
+
+	/**
+	 * Get the info of a single line.
+	 */
+	public getLineInfo(document: JsonLineSource, line: number): JsonLineInfo {
+		this.scanTo(document, line);
+		return this.lineInfos[line];
+	}
+
+	/**
+	 * Find the object or array enclosing a position, or null at the top level.
+	 */
+	public getContainerAt(document: JsonLineSource, line: number, character: number): JsonContainerInfo | null {
+		this.scanTo(document, line - 1);
+
+		// Replay lines from the nearest checkpoint on a copy of its nesting
+		const checkpointIndex = Math.min(Math.floor(line / CHECKPOINT_INTERVAL), this.checkpoints.length - 1);
+		const checkpoint = this.checkpoints[checkpointIndex];
+		const structure = checkpoint.structure.clone();
+		let state = checkpoint.state;
+
+		for (let index = checkpointIndex * CHECKPOINT_INTERVAL; index < line; index++) {
+			const tokenized = tokenizeLine(document.lineAt(index).text, state);
+			state = tokenized.state;
+			tokenized.tokens.forEach(token => structure.push(token));
+		}
+
+		const lineText = document.lineAt(line).text;
+		tokenizeLine(lineText.slice(0, character), state).tokens.forEach(token => structure.push(token));
+
+		const container = structure.top;
+		if (!container) {
+			return null;
+		}
+
+		const depth = structure.stack.length;
+		const path = structure.stack.slice(0, -1).map(frame => frame.key ?? '');
+
+		// Read the rest of the container to collect the types of members after the position
+		state = getStateAt(lineText, state, JSON_SYNTAX, character);
+		for (let index = line; index < document.lineCount && structure.stack.length >= depth; index++) {
+			const text = index === line ? lineText.slice(character) : document.lineAt(index).text;
+			const tokenized = tokenizeLine(text, state);
+			state = tokenized.state;
+
+			for (const token of tokenized.tokens) {
+				structure.push(token);
+				if (structure.stack.length < depth) {
+					break;
+				}
+			}
+		}
+
+		return { kind: container.kind, path, memberTypes: container.memberTypes };
+	}
+
+	/**
+	 * Scan lines until infos reach `lastLine`, saving checkpoints on the way.
+	 */
+	private scanTo(document: JsonLineSource, lastLine: number): void {
+		const { structure } = this.frontier;
+		let { state } = this.frontier;
+
+		for (let line = this.lineInfos.length; line <= lastLine && line < document.lineCount; line++) {
+			if (line % CHECKPOINT_INTERVAL === 0 && line / CHECKPOINT_INTERVAL === this.checkpoints.length) {
+				this.checkpoints.push({ state, structure: structure.clone() });
+			}
+
+			const tokenized = tokenizeLine(document.lineAt(line).text, state);
+			state = tokenized.state;
+
+			let valueEnd = -1;
+			for (const token of tokenized.tokens) {
+				valueEnd = structure.push(token) ? token.end : -1;
+			}
+
+			const needsComma = valueEnd !== -1 && structure.top?.expect === 'comma';
+			this.lineInfos.push({ hasCode: tokenized.hasCode, commaPosition: needsComma ? valueEnd + 1 : -1 });
+		}
+
+		this.frontier = { state, structure };
+	}
+}
+
+/**
+ * Wrap an array of lines for scanning.
+ */
+function toLineSource(lines: string[]): JsonLineSource {
+	return { lineCount: lines.length, lineAt: line => ({ text: lines[line] }) };
+}
+
+/**
+ * Scan JSON/JSONC lines up to `lastLine`, tracking object and array nesting,
+ * strings and comments, and report for each line whether it ends a value lacking a comma.
+ */
+export function scanJsonLines(lines: string[], lastLine = lines.length - 1): JsonLineInfo[] {
+	return new JsonDocumentScan().getLineInfos(toLineSource(lines), lastLine);
+}
+
+/**
+ * Find the object or array enclosing a position, or null at the top level.
+ */
+export function getJsonContainerAt(lines: string[], line: number, character: number): JsonContainerInfo | null {
+	return new JsonDocumentScan().getContainerAt(toLineSource(lines), line, character);
+}
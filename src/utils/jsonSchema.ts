@@ -0,0 +1,203 @@
+import { JsonPath, JsonValueType } from './jsonScanner';
+
+/**
+ * Subset of JSON Schema used to look up property types and names.
+ */
+export interface JsonSchema {
+	type?: string | string[];
+	properties?: Record<string, JsonSchema | boolean>;
+	patternProperties?: Record<string, JsonSchema | boolean>;
+	additionalProperties?: JsonSchema | boolean;
+	items?: JsonSchema | boolean | Array<JsonSchema | boolean>;
+	prefixItems?: Array<JsonSchema | boolean>;
+	enum?: unknown[];
+	const?: unknown;
+	allOf?: Array<JsonSchema | boolean>;
+	anyOf?: Array<JsonSchema | boolean>;
+	oneOf?: Array<JsonSchema | boolean>;
+	$ref?: string;
+	definitions?: Record<string, JsonSchema>;
+	$defs?: Record<string, JsonSchema>;
+}
+
+/**
+ * Result of looking up a property name in the schema of its object.
+ * `known` carries the name as declared in the schema, which may differ in case.
+ */
+export type SchemaPropertyLookup =
+	| { kind: 'known'; name: string }
+	| { kind: 'unknown' }
+	| { kind: 'undescribed' };
+
+const MAX_REF_DEPTH = 10;
+
+const JSON_VALUE_TYPES: ReadonlySet<string> = new Set(['string', 'number', 'boolean', 'null', 'object', 'array']);
+
+/**
+ * Resolve a local `$ref` (`#/definitions/...`) against the root schema.
+ * References to other documents are not followed.
+ */
+function resolveRef(root: JsonSchema, ref: string): JsonSchema | null {
+	if (!ref.startsWith('#')) {
+		return null;
+	}
+
+	let target: unknown = root;
+	for (const part of ref.slice(1).split('/').filter(part => part.length > 0)) {
+		const key = decodeURIComponent(part).replace(/~1/g, '/').replace(/~0/g, '~');
+		if (typeof target !== 'object' || target === null || !Object.prototype.hasOwnProperty.call(target, key)) {
+			return null;
+		}
+		target = (target as Record<string, unknown>)[key];
+	}
+
+	return typeof target === 'object' && target !== null ? target as JsonSchema : null;
+}
+
+/**
+ * Expand a schema into the schemas it is made of: references are resolved
+ * and `allOf`/`anyOf`/`oneOf` branches are flattened.
+ */
+function expandSchema(root: JsonSchema, schema: JsonSchema | boolean | undefined, depth = 0): JsonSchema[] {
+	if (typeof schema !== 'object' || depth > MAX_REF_DEPTH) {
+		return [];
+	}
+
+	const expanded = [schema];
+	if (schema.$ref) {
+		const target = resolveRef(root, schema.$ref);
+		if (target) {
+			expanded.push(...expandSchema(root, target, depth + 1));
+		}
+	}
+
+	for (const branch of [...schema.allOf ?? [], ...schema.anyOf ?? [], ...schema.oneOf ?? []]) {
+		expanded.push(...expandSchema(root, branch, depth + 1));
+	}
+
+	return expanded;
+}
+
+/**
+ * Find the pattern property a name matches, or undefined if none does.
+ */
+function findPatternProperty(schema: JsonSchema, name: string): JsonSchema | boolean | undefined {
+	for (const [pattern, patternSchema] of Object.entries(schema.patternProperties ?? {})) {
+		try {
+			if (new RegExp(pattern, 'u').test(name)) {
+				return patternSchema;
+			}
+		} catch {
+			// Ignore patterns JavaScript cannot compile
+		}
+	}
+
+	return undefined;
+}
+
+/**
+ * Get the schemas describing a member of a value described by `schema`.
+ */
+function getMemberSchemas(root: JsonSchema, schema: JsonSchema, key: string | number): JsonSchema[] {
+	if (typeof key === 'number') {
+		const tuple = schema.prefixItems ?? (Array.isArray(schema.items) ? schema.items : null);
+		if (tuple) {
+			return expandSchema(root, tuple[key]);
+		}
+		return Array.isArray(schema.items) ? [] : expandSchema(root, schema.items);
+	}
+
+	if (schema.properties && Object.prototype.hasOwnProperty.call(schema.properties, key)) {
+		return expandSchema(root, schema.properties[key]);
+	}
+
+	const patternSchema = findPatternProperty(schema, key);
+	return expandSchema(root, patternSchema ?? schema.additionalProperties);
+}
+
+/**
+ * Get the schemas describing the value at a path, or an empty list when the schema does not describe it.
+ */
+export function getSchemasAtPath(root: JsonSchema, path: JsonPath): JsonSchema[] {
+	let schemas = expandSchema(root, root);
+
+	for (const key of path) {
+		schemas = schemas.flatMap(schema => getMemberSchemas(root, schema, key));
+	}
+
+	return schemas;
+}
+
+/**
+ * Get the types a schema allows, declared or implied by its keywords.
+ */
+function getSchemaTypes(schema: JsonSchema): JsonValueType[] {
+	if (schema.type !== undefined) {
+		const types = Array.isArray(schema.type) ? schema.type : [schema.type];
+		return types.map(type => type === 'integer' ? 'number' : type)
+			.filter((type): type is JsonValueType => JSON_VALUE_TYPES.has(type));
+	}
+
+	if (schema.properties || schema.patternProperties || typeof schema.additionalProperties === 'object') {
+		return ['object'];
+	}
+
+	if (schema.items || schema.prefixItems) {
+		return ['array'];
+	}
+
+	const values = schema.const !== undefined ? [schema.const] : schema.enum ?? [];
+	return values.map(value => {
+		if (value === null) {
+			return 'null';
+		}
+		return Array.isArray(value) ? 'array' : typeof value as JsonValueType;
+	}).filter(type => JSON_VALUE_TYPES.has(type));
+}
+
+/**
+ * Get the single type the schema allows for the value at a path, or null when
+ * it allows several types or does not describe the value.
+ */
+export function getSchemaValueType(root: JsonSchema, path: JsonPath): JsonValueType | null {
+	const types = new Set(getSchemasAtPath(root, path).flatMap(getSchemaTypes));
+	return types.size === 1 ? [...types][0] : null;
+}
+
+/**
+ * Look up a property name of the object at a path. Undeclared names differing only in case
+ * from a declared one resolve to the declared name; other undeclared names are unknown
+ * unless the schema explicitly allows additional properties.
+ */
+export function lookupSchemaProperty(root: JsonSchema, objectPath: JsonPath, name: string): SchemaPropertyLookup {
+	// Schemas made only of references or combinators do not restrict names themselves
+	const schemas = getSchemasAtPath(root, objectPath).filter(schema =>
+		schema.properties || schema.patternProperties || schema.additionalProperties !== undefined
+	);
+	const declaredNames = schemas.flatMap(schema => Object.keys(schema.properties ?? {}));
+
+	if (declaredNames.length === 0 && !schemas.some(schema => schema.patternProperties)) {
+		return { kind: 'undescribed' };
+	}
+
+	// The schema reference itself is always allowed at the top level
+	if (objectPath.length === 0 && name === '$schema') {
+		return { kind: 'known', name };
+	}
+
+	const matchesPattern = schemas.some(schema => findPatternProperty(schema, name) !== undefined);
+	if (declaredNames.includes(name) || matchesPattern) {
+		return { kind: 'known', name };
+	}
+
+	const lowerName = name.toLowerCase();
+	const caseMatch = declaredNames.find(declared => declared.toLowerCase() === lowerName);
+	if (caseMatch) {
+		return { kind: 'known', name: caseMatch };
+	}
+
+	const allowsAdditional = schemas.some(schema =>
+		schema.additionalProperties !== undefined && schema.additionalProperties !== false
+	);
+	return allowsAdditional ? { kind: 'known', name } : { kind: 'unknown' };
+}
@@ -0,0 +1,151 @@
+import * as path from 'path';
+import * as vscode from 'vscode';
+import { parseJsonc } from './jsonc';
+import { JsonSchema } from './jsonSchema';
+
+/**
+ * Schema association as written in the `json.schemas` setting.
+ */
+interface JsonSchemaAssociation {
+	fileMatch?: string[];
+	url?: string;
+	schema?: JsonSchema;
+}
+
+const schemaCache = new Map<string, JsonSchema | null>();
+
+/**
+ * `$schema` references of documents, keyed by document URI, with the version they were read from.
+ */
+const schemaReferences = new Map<string, { version: number; reference: string | null }>();
+
+/**
+ * Check whether a document path matches a `fileMatch` glob such as `package.json` or `/.vscode/*.json`.
+ */
+export function matchesFileMatch(pattern: string, filePath: string): boolean {
+	if (pattern.startsWith('!')) {
+		return false;
+	}
+
+	const source = pattern
+		.replace(/^\//, '')
+		.replace(/[.+^${}()|[\]\\]/g, '\\$&')
+		.replace(/\*\*/g, '\u0000')
+		.replace(/\*/g, '[^/]*')
+		.replace(/\?/g, '[^/]')
+		.replace(/\u0000/g, '.*');
+
+	return new RegExp(`(?:^|/)${source}$`).test(filePath.replace(/\\/g, '/'));
+}
+
+/**
+ * Resolve a schema reference to a local resource. Remote schemas are not loaded.
+ */
+function resolveSchemaUri(reference: string, baseUri: vscode.Uri | undefined): vscode.Uri | null {
+	if (/^[a-z][a-z0-9+.-]+:/i.test(reference)) {
+		const uri = vscode.Uri.parse(reference);
+		return uri.scheme === 'file' || uri.scheme === 'untitled' ? uri : null;
+	}
+
+	if (path.isAbsolute(reference)) {
+		return vscode.Uri.file(reference);
+	}
+
+	return baseUri ? vscode.Uri.joinPath(baseUri, reference) : null;
+}
+
+/**
+ * Read and parse a schema file, caching the result.
+ */
+async function loadSchema(uri: vscode.Uri): Promise<JsonSchema | null> {
+	const key = uri.toString();
+	if (schemaCache.has(key)) {
+		return schemaCache.get(key) ?? null;
+	}
+
+	let schema: JsonSchema | null = null;
+	try {
+		const content = await vscode.workspace.fs.readFile(uri);
+		const parsed = parseJsonc(Buffer.from(content).toString('utf8'));
+		schema = typeof parsed === 'object' && parsed !== null ? parsed as JsonSchema : null;
+	} catch {
+		// Missing or malformed schema - behave as if there was none
+	}
+
+	schemaCache.set(key, schema);
+	return schema;
+}
+
+/**
+ * Get the `$schema` property value of a document, reading its text once per version.
+ */
+function getSchemaReference(document: vscode.TextDocument): string | null {
+	const key = document.uri.toString();
+	const cached = schemaReferences.get(key);
+	if (cached?.version === document.version) {
+		return cached.reference;
+	}
+
+	const reference = document.getText().match(/"\$schema"\s*:\s*"([^"]+)"/)?.[1] ?? null;
+	schemaReferences.set(key, { version: document.version, reference });
+	return reference;
+}
+
+/**
+ * Find the JSON Schema of a document: its `$schema` property first,
+ * then associations from the `json.schemas` setting.
+ */
+export async function getDocumentSchema(document: vscode.TextDocument): Promise<JsonSchema | null> {
+	const documentDir = document.uri.scheme === 'file'
+		? vscode.Uri.file(path.dirname(document.uri.fsPath))
+		: undefined;
+
+	const schemaReference = getSchemaReference(document);
+	if (schemaReference !== null) {
+		const uri = resolveSchemaUri(schemaReference, documentDir);
+		return uri ? loadSchema(uri) : null;
+	}
+
+	const workspaceFolder = vscode.workspace.getWorkspaceFolder(document.uri)?.uri;
+	const associations = vscode.workspace
+		.getConfiguration('json', document)
+		.get<JsonSchemaAssociation[]>('schemas', []);
+
+	for (const association of associations) {
+		if (!association.fileMatch?.some(pattern => matchesFileMatch(pattern, document.uri.path))) {
+			continue;
+		}
+
+		if (association.schema) {
+			return association.schema;
+		}
+
+		const uri = association.url ? resolveSchemaUri(association.url, workspaceFolder) : null;
+		if (uri) {
+			return loadSchema(uri);
+		}
+	}
+
+	return null;
+}
+
+/**
+ * Drop loaded schemas, e.g. after a schema file is saved.
+ */
+export function clearJsonSchemaCache(): void {
+	schemaCache.clear();
+}
+
+/**
+ * Forget the `$schema` reference of a closed document.
+ */
+export function deleteJsonSchemaReference(documentUri: string): void {
+	schemaReferences.delete(documentUri);
+}
+
+/**
+ * Forget the `$schema` references of all documents.
+ */
+export function clearJsonSchemaReferences(): void {
+	schemaReferences.clear();
+}
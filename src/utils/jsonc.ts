@@ -0,0 +1,35 @@
+/**
+ * Parse JSON with comments and trailing commas, as used by language configuration files and schemas.
+ */
+export function parseJsonc(text: string): unknown {
+	let result = '';
+	let index = 0;
+
+	while (index < text.length) {
+		const char = text.charAt(index);
+
+		if (char === '"') {
+			// Copy the string literal as is
+			let end = index + 1;
+			while (end < text.length && text.charAt(end) !== '"') {
+				end += text.charAt(end) === '\\' ? 2 : 1;
+			}
+			result += text.slice(index, end + 1);
+			index = end + 1;
+		} else if (text.startsWith('//', index)) {
+			const end = text.indexOf('\n', index);
+			index = end === -1 ? text.length : end;
+		} else if (text.startsWith('/*', index)) {
+			const end = text.indexOf('*/', index + 2);
+			index = end === -1 ? text.length : end + 2;
+		} else if (char === ',' && /^\s*[}\]]/.test(text.slice(index + 1).replace(/^(?:\s|\/\/[^\n]*|\/\*[\s\S]*?\*\/)*/, ''))) {
+			// Skip trailing comma
+			index++;
+		} else {
+			result += char;
+			index++;
+		}
+	}
+
+	return JSON.parse(result);
+}
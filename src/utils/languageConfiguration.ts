@@ -0,0 +1,178 @@
+import * as vscode from 'vscode';
+import { LanguageIndentationRules } from './indentRules';
+import { parseJsonc } from './jsonc';
+
+/**
+ * Regular expression as written in language configuration files.
+ */
+type PatternSetting = string | { pattern: string; flags?: string };
+
+/**
+ * Parts of a `language-configuration.json` file used for indentation.
+ */
+interface LanguageConfigurationFile {
+	indentationRules?: {
+		increaseIndentPattern?: PatternSetting;
+		decreaseIndentPattern?: PatternSetting;
+	};
+	onEnterRules?: Array<{
+		beforeText?: PatternSetting;
+		afterText?: PatternSetting;
+		previousLineText?: PatternSetting;
+		action?: { indent?: string };
+	}>;
+}
+
+let cachedRules: Map<string, LanguageIndentationRules> | null = null;
+let loadGeneration = 0;
+
+/**
+ * Compile a pattern from a language configuration file, or null if it is missing or invalid.
+ */
+function compilePatternSetting(setting: PatternSetting | undefined): RegExp | null {
+	if (setting === undefined) {
+		return null;
+	}
+
+	try {
+		return typeof setting === 'string'
+			? new RegExp(setting)
+			: new RegExp(setting.pattern, setting.flags);
+	} catch {
+		return null;
+	}
+}
+
+/**
+ * Join several patterns into one matching any of them.
+ */
+function combinePatterns(patterns: RegExp[]): RegExp | null {
+	if (patterns.length <= 1) {
+		return patterns[0] ?? null;
+	}
+
+	const flags = [...new Set(patterns.flatMap(pattern => [...pattern.flags]))]
+		.filter(flag => flag !== 'g' && flag !== 'y')
+		.join('');
+
+	try {
+		return new RegExp(patterns.map(pattern => `(?:${pattern.source})`).join('|'), flags);
+	} catch {
+		return patterns[0];
+	}
+}
+
+/**
+ * Convert a language configuration into indentation rules.
+ * Only rules present in the configuration are set.
+ */
+function toIndentationRules(configuration: LanguageConfigurationFile): LanguageIndentationRules {
+	const rules: LanguageIndentationRules = {};
+	const increasePatterns: RegExp[] = [];
+	const outdentPatterns: RegExp[] = [];
+
+	const increase = compilePatternSetting(configuration.indentationRules?.increaseIndentPattern);
+	if (increase) {
+		increasePatterns.push(increase);
+	}
+
+	const decrease = compilePatternSetting(configuration.indentationRules?.decreaseIndentPattern);
+	if (decrease) {
+		rules.decreaseIndentPattern = decrease;
+	}
+
+	// Enter rules depending only on the line before the cursor describe the next line indent
+	for (const rule of configuration.onEnterRules ?? []) {
+		if (rule.afterText !== undefined || rule.previousLineText !== undefined) {
+			continue;
+		}
+
+		const beforeText = compilePatternSetting(rule.beforeText);
+		if (!beforeText) {
+			continue;
+		}
+
+		if (rule.action?.indent === 'indent' || rule.action?.indent === 'indentOutdent') {
+			increasePatterns.push(beforeText);
+		} else if (rule.action?.indent === 'outdent') {
+			outdentPatterns.push(beforeText);
+		}
+	}
+
+	const increasePattern = combinePatterns(increasePatterns);
+	if (increasePattern) {
+		rules.increaseIndentPattern = increasePattern;
+	}
+
+	const dedentAfterPattern = combinePatterns(outdentPatterns);
+	if (dedentAfterPattern) {
+		rules.dedentAfterPattern = dedentAfterPattern;
+	}
+
+	return rules;
+}
+
+/**
+ * Read the language configuration of one contributed language, or null if it has no indentation rules.
+ */
+async function readLanguageConfiguration(
+	extensionUri: vscode.Uri,
+	configurationPath: string
+): Promise<LanguageIndentationRules | null> {
+	try {
+		const content = await vscode.workspace.fs.readFile(vscode.Uri.joinPath(extensionUri, configurationPath));
+		const rules = toIndentationRules(parseJsonc(Buffer.from(content).toString('utf8')) as LanguageConfigurationFile);
+		return Object.keys(rules).length > 0 ? rules : null;
+	} catch {
+		// Missing or malformed configuration - keep built-in rules for this language
+		return null;
+	}
+}
+
+/**
+ * Read language configurations contributed by installed extensions.
+ * Built-in rules are used until loading finishes.
+ */
+export async function loadLanguageConfigurations(): Promise<void> {
+	const generation = ++loadGeneration;
+	const languages = vscode.extensions.all.flatMap(extension => {
+		const contributed: Array<{ id?: string; configuration?: string }> =
+			extension.packageJSON?.contributes?.languages ?? [];
+		return contributed.map(language => ({ extensionUri: extension.extensionUri, ...language }));
+	});
+
+	const loaded = await Promise.all(languages.map(async ({ extensionUri, id, configuration }) =>
+		id && configuration
+			? { id, rules: await readLanguageConfiguration(extensionUri, configuration) }
+			: null
+	));
+
+	// A newer load started meanwhile, e.g. after extensions changed
+	if (generation !== loadGeneration) {
+		return;
+	}
+
+	const rulesByLanguage = new Map<string, LanguageIndentationRules>();
+	for (const language of loaded) {
+		if (language?.rules) {
+			rulesByLanguage.set(language.id, language.rules);
+		}
+	}
+	cachedRules = rulesByLanguage;
+}
+
+/**
+ * Get indentation rules from the language configuration of installed extensions,
+ * or undefined while they are not loaded.
+ */
+export function getLanguageConfigurationRules(languageId: string): LanguageIndentationRules | undefined {
+	return cachedRules?.get(languageId);
+}
+
+/**
+ * Drop loaded language configurations, e.g. after extensions change.
+ */
+export function clearLanguageConfigurationCache(): void {
+	loadGeneration++;
+	cachedRules = null;
+}
@@ -0,0 +1,92 @@
+import * as vscode from 'vscode';
+
+/**
+ * Markers at the start of a Markdown list item or blockquote line.
+ */
+export interface MarkdownLinePrefix {
+	/** Indentation and blockquote markers (`> `) before the list marker. */
+	quote: string;
+	/** List bullet (`-`, `*`, `+`) or number with delimiter (`1.`, `1)`), empty outside lists. */
+	bullet: string;
+	/** Whitespace between the bullet and the item content. */
+	spacing: string;
+	/** Task checkbox (`[ ] `, `[x] `), if any. */
+	checkbox: string;
+	/** Number of an ordered list item, or null. */
+	number: number | null;
+	/** Length of all markers together. */
+	length: number;
+}
+
+/**
+ * Determine whether document is Markdown.
+ */
+export function isMarkdownDocument(document: vscode.TextDocument): boolean {
+	return document.languageId === 'markdown';
+}
+
+/**
+ * Match the list and blockquote markers of a Markdown line.
+ * Returns null for lines without markers and for thematic breaks (`* * *`).
+ */
+export function matchMarkdownPrefix(lineText: string): MarkdownLinePrefix | null {
+	const match = lineText.match(/^(\s*(?:>\s?)*)(?:([-*+]|(\d{1,9})[.)])(\s+|$)(\[[ xX]\](?:\s+|$))?)?/);
+	if (!match) {
+		return null;
+	}
+
+	const [text, quote, bullet = '', digits, spacing = '', checkbox = ''] = match;
+	const isThematicBreak = /^\s*([-*_])(?:\s*\1){2,}\s*$/.test(lineText.slice(quote.length));
+	if ((!bullet && !quote.includes('>')) || isThematicBreak) {
+		return null;
+	}
+
+	return {
+		quote,
+		bullet,
+		spacing,
+		checkbox,
+		number: digits !== undefined ? parseInt(digits, 10) : null,
+		length: text.length
+	};
+}
+
+/**
+ * Match a code fence line (three or more backticks or tildes), capturing the fence.
+ */
+export function matchMarkdownFence(lineText: string): string | null {
+	return lineText.match(/^(?:\s*>)*\s*(`{3,}|~{3,})/)?.[1] ?? null;
+}
+
+/**
+ * Check whether a fence line closes the block opened by `openingFence`:
+ * same character, at least as long, and nothing but whitespace after it.
+ */
+export function closesMarkdownFence(lineText: string, openingFence: string): boolean {
+	const fence = matchMarkdownFence(lineText);
+	return fence !== null &&
+		fence[0] === openingFence[0] &&
+		fence.length >= openingFence.length &&
+		lineText.slice(lineText.indexOf(fence) + fence.length).trim() === '';
+}
+
+/**
+ * Check whether a line is inside a fenced code block, fence lines included.
+ */
+export function isInMarkdownCodeFence(document: vscode.TextDocument, line: number): boolean {
+	let openingFence: string | null = null;
+
+	for (let index = 0; index <= line; index++) {
+		const lineText = document.lineAt(index).text;
+		if (openingFence === null) {
+			openingFence = matchMarkdownFence(lineText);
+		} else if (closesMarkdownFence(lineText, openingFence)) {
+			if (index === line) {
+				return true;
+			}
+			openingFence = null;
+		}
+	}
+
+	return openingFence !== null;
+}
@@ -0,0 +1,98 @@
+import * as vscode from 'vscode';
+import { BracketIndex } from './bracketIndex';
+import { getLanguageSyntax, getStateAt, scanLine } from './syntaxScanner';
+
+/**
+ * Statement around a position in a Python document, as seen by the scanner.
+ */
+export interface PythonStatementContext {
+	/** Line where the statement containing the position starts. */
+	startLine: number;
+	/** Code before the position on its line, without trailing comment and whitespace. */
+	code: string;
+	/** Number of brackets opened before the position and not closed yet. */
+	openBrackets: number;
+	/** Whether the position is inside a string. */
+	inString: boolean;
+}
+
+const PYTHON_SYNTAX = getLanguageSyntax('python');
+
+const BLOCK_HEADER_PATTERN = /^\s*(?:(?:async\s+)?(?:def|for|with)|class|if|elif|else|while|try|except|finally|match|case)\b/;
+
+const BLOCK_END_PATTERN = /^\s*(?:return|pass|raise|break|continue)\b/;
+
+/**
+ * Determine whether document is Python.
+ */
+export function isPythonDocument(document: vscode.TextDocument): boolean {
+	return document.languageId === 'python';
+}
+
+/**
+ * Find the statement a position in a Python document belongs to, using the bracket index
+ * for the scanner state at line starts. A statement continues on the next line while
+ * brackets or a triple-quoted string are open, or after a trailing backslash.
+ */
+export function getPythonStatementContext(
+	document: vscode.TextDocument,
+	bracketIndex: BracketIndex,
+	line: number,
+	character: number
+): PythonStatementContext {
+	const continuesOnLine = (nextLine: number): boolean =>
+		document.lineAt(nextLine - 1).text.endsWith('\\') ||
+		bracketIndex.getLineStartState(nextLine).mode !== 'code' ||
+		bracketIndex.getOpenBracketCount(nextLine) > 0;
+
+	let startLine = line;
+	while (startLine > 0 && continuesOnLine(startLine)) {
+		startLine--;
+	}
+
+	const state = bracketIndex.getLineStartState(line);
+	let openBrackets = bracketIndex.getOpenBracketCount(line);
+	const countBracket = (char: string): void => {
+		if ('([{'.includes(char)) {
+			openBrackets++;
+		} else if (')]}'.includes(char)) {
+			openBrackets = Math.max(0, openBrackets - 1);
+		}
+	};
+
+	const lineText = document.lineAt(line).text;
+	const textBefore = lineText.slice(0, character);
+	const inString = getStateAt(lineText, state, PYTHON_SYNTAX, character).mode !== 'code';
+	let codeEnd = 0;
+	scanLine(
+		textBefore,
+		state,
+		PYTHON_SYNTAX,
+		(char, charIndex) => {
+			countBracket(char);
+			if (!/\s/.test(char)) {
+				codeEnd = charIndex + 1;
+			}
+		},
+		charIndex => {
+			codeEnd = Math.max(codeEnd, charIndex + 1);
+		}
+	);
+
+	return { startLine, code: textBefore.slice(0, codeEnd), openBrackets, inString };
+}
+
+/**
+ * Check whether the statement ends a block header (`def`, `if`, `for`, `with`, `class`, ...)
+ * at the position. Colons inside brackets, such as in dict literals and slices, do not count.
+ */
+export function isPythonBlockHeader(context: PythonStatementContext, startLineText: string): boolean {
+	return context.openBrackets === 0 && context.code.endsWith(':') && BLOCK_HEADER_PATTERN.test(startLineText);
+}
+
+/**
+ * Check whether the statement ends its block (`return`, `pass`, `raise`, `break`, `continue`).
+ */
+export function endsPythonBlock(context: PythonStatementContext, startLineText: string): boolean {
+	return context.openBrackets === 0 && BLOCK_END_PATTERN.test(startLineText);
+}
@@ -0,0 +1,78 @@
+/**
+ * Per-language rules used to complete the current statement.
+ */
+export interface StatementRules {
+	/** Token ending a simple statement, empty if the language does not use one. */
+	terminator: string;
+	/** Token opening the body of a block statement. */
+	blockOpener: '{' | ':';
+	/** Block headers ending with a parenthesized condition or parameter list: `if (...)`, `function f(...)`. */
+	conditionalBlock: RegExp;
+	/** Block headers that open a body regardless of how they end: `else`, `try`, `class Foo`. */
+	declarationBlock: RegExp;
+}
+
+const NEVER = /$^/;
+
+const C_LIKE_RULES: StatementRules = {
+	terminator: ';',
+	blockOpener: '{',
+	conditionalBlock: /^(?:(?:\}\s*)?(?:else\s+if|catch)|if|for|foreach|while|switch|using|lock|synchronized)\s*\(|^(?:(?:export|default|async|static)\s+)*function\b|^constructor\s*\(/,
+	declarationBlock: /^(?:\}\s*)?(?:else|try|finally)$|^do$|^(?:(?:export|default|declare|abstract|public|private|protected|internal|static|final|sealed|partial)\s+)*(?:class|interface|enum|namespace|struct|record)\b/
+};
+
+const RUST_RULES: StatementRules = {
+	terminator: ';',
+	blockOpener: '{',
+	conditionalBlock: NEVER,
+	declarationBlock: /^(?:\}\s*)?(?:(?:pub(?:\([\w\s]+\))?|async|const|unsafe|extern\s+"\w+")\s+)*(?:if|else|for|while|loop|match|fn|impl|trait|struct|enum|mod)\b/
+};
+
+const GO_RULES: StatementRules = {
+	terminator: '',
+	blockOpener: '{',
+	conditionalBlock: NEVER,
+	declarationBlock: /^(?:\}\s*)?(?:if|else|for|switch|select|func|type\s+\w+\s+(?:struct|interface))\b/
+};
+
+const KOTLIN_LIKE_RULES: StatementRules = {
+	...C_LIKE_RULES,
+	terminator: ''
+};
+
+const PYTHON_RULES: StatementRules = {
+	terminator: '',
+	blockOpener: ':',
+	conditionalBlock: NEVER,
+	declarationBlock: /^(?:async\s+)?(?:if|elif|else|for|while|def|class|try|except|finally|with|match|case)\b/
+};
+
+const LANGUAGE_RULES: Record<string, StatementRules> = {
+	javascript: C_LIKE_RULES,
+	javascriptreact: C_LIKE_RULES,
+	typescript: C_LIKE_RULES,
+	typescriptreact: C_LIKE_RULES,
+	c: C_LIKE_RULES,
+	cpp: C_LIKE_RULES,
+	csharp: C_LIKE_RULES,
+	java: C_LIKE_RULES,
+	dart: C_LIKE_RULES,
+	php: C_LIKE_RULES,
+	rust: RUST_RULES,
+	go: GO_RULES,
+	kotlin: KOTLIN_LIKE_RULES,
+	swift: KOTLIN_LIKE_RULES,
+	scala: KOTLIN_LIKE_RULES,
+	python: PYTHON_RULES
+};
+
+/**
+ * Get statement rules for a language, falling back to brace blocks without a terminator.
+ */
+export function getStatementRules(languageId?: string): StatementRules {
+	if (languageId && Object.prototype.hasOwnProperty.call(LANGUAGE_RULES, languageId)) {
+		return LANGUAGE_RULES[languageId];
+	}
+
+	return KOTLIN_LIKE_RULES;
+}
@@ -0,0 +1,120 @@
+/**
+ * Operators joining two string literals split across lines.
+ * An empty operator means adjacent literals are concatenated implicitly.
+ */
+const STRING_CONCATENATION: Record<string, string> = {
+	javascript: '+',
+	javascriptreact: '+',
+	typescript: '+',
+	typescriptreact: '+',
+	java: '+',
+	csharp: '+',
+	kotlin: '+',
+	scala: '+',
+	dart: '+',
+	go: '+',
+	php: '.',
+	c: '',
+	cpp: '',
+	python: '\\'
+};
+
+/**
+ * Prefixes a string literal may carry, such as Python `f"..."` or C# `$"..."`.
+ * Each pattern matches a prefix right before the opening quote.
+ */
+const STRING_PREFIX_PATTERNS: Record<string, RegExp> = {
+	python: /(?<![\w$])(?:[rR][fFbB]?|[fFbB][rR]?|[uU])$/,
+	csharp: /(?<![\w$])(?:\$@|@\$|\$|@)$/,
+	c: /(?<![\w$])(?:u8|[LuU])$/,
+	cpp: /(?<![\w$])(?:u8|[LuU])$/
+};
+
+/**
+ * Languages where `'` delimits a character literal rather than a string.
+ */
+const CHAR_LITERAL_LANGUAGES: ReadonlySet<string> = new Set([
+	'java', 'c', 'cpp', 'csharp', 'kotlin', 'scala', 'go'
+]);
+
+/**
+ * Get the operator joining split string literals, or null if the language does not support splitting.
+ */
+export function getStringConcatenation(languageId?: string): string | null {
+	if (languageId && Object.prototype.hasOwnProperty.call(STRING_CONCATENATION, languageId)) {
+		return STRING_CONCATENATION[languageId];
+	}
+
+	return null;
+}
+
+/**
+ * Check whether the character before `charIndex` escapes the next one.
+ */
+export function isEscapedPosition(lineText: string, charIndex: number): boolean {
+	let backslashes = 0;
+	while (charIndex - backslashes > 0 && lineText.charAt(charIndex - backslashes - 1) === '\\') {
+		backslashes++;
+	}
+	return backslashes % 2 === 1;
+}
+
+/**
+ * Check whether a delimiter opens a character literal, which cannot be split.
+ */
+export function isCharLiteralDelimiter(delimiter: string, languageId?: string): boolean {
+	return delimiter === '\'' && languageId !== undefined && CHAR_LITERAL_LANGUAGES.has(languageId);
+}
+
+/**
+ * Get the prefix of a string literal whose opening quote is at `quoteIndex`:
+ * an empty string for a plain literal, or null when the literal has a prefix
+ * the language does not support reopening (e.g. C++ raw strings).
+ */
+export function getStringPrefix(lineText: string, quoteIndex: number, languageId?: string): string | null {
+	const textBefore = lineText.slice(0, quoteIndex);
+	const pattern = languageId ? STRING_PREFIX_PATTERNS[languageId] : undefined;
+	const prefix = pattern ? textBefore.match(pattern)?.[0] : undefined;
+
+	if (prefix !== undefined) {
+		return prefix;
+	}
+
+	return /[\w$@]$/.test(textBefore) ? null : '';
+}
+
+/**
+ * Check whether a position inside an interpolated literal (`f"..."`, `$"..."`) is within
+ * an interpolation, given the literal text between the opening quote and the position.
+ */
+export function isInsideInterpolation(prefix: string, literalText: string): boolean {
+	if (!/[fF$]/.test(prefix)) {
+		return false;
+	}
+
+	const braces = literalText.replace(/\{\{|\}\}/g, '');
+	let depth = 0;
+	for (const char of braces) {
+		if (char === '{') {
+			depth++;
+		} else if (char === '}') {
+			depth = Math.max(0, depth - 1);
+		}
+	}
+
+	return depth > 0;
+}
+
+/**
+ * Build the text inserted where a string literal is split: close the literal,
+ * join with the concatenation operator and reopen it with its prefix on the next line.
+ */
+export function buildStringSplit(
+	delimiter: string,
+	concatenation: string,
+	continuationIndent: string,
+	prefix = ''
+): string {
+	const closing = concatenation.length > 0 ? `${delimiter} ${concatenation}` : delimiter;
+	return `${closing}\n${continuationIndent}${prefix}${delimiter}`;
+}
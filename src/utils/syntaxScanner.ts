@@ -0,0 +1,406 @@
+/**
+ * Lexical rules used to tell code apart from strings and comments.
+ */
+export interface LanguageSyntax {
+	lineComments: string[];
+	blockComments: Array<[string, string]>;
+	strings: string[];
+	multilineStrings: string[];
+	templateStrings: boolean;
+	regexLiterals: boolean;
+}
+
+/**
+ * Scanner state carried from the end of one line to the start of the next.
+ */
+export interface ScannerState {
+	mode: 'code' | 'string' | 'multilineString' | 'template' | 'blockComment';
+	closing: string;
+	templateDepths: readonly number[];
+}
+
+const JAVASCRIPT_SYNTAX: LanguageSyntax = {
+	lineComments: ['//'],
+	blockComments: [['/*', '*/']],
+	strings: ['"', '\''],
+	multilineStrings: [],
+	templateStrings: true,
+	regexLiterals: true
+};
+
+const C_LIKE_SYNTAX: LanguageSyntax = {
+	lineComments: ['//'],
+	blockComments: [['/*', '*/']],
+	strings: ['"', '\''],
+	multilineStrings: [],
+	templateStrings: false,
+	regexLiterals: false
+};
+
+const GO_SYNTAX: LanguageSyntax = {
+	...C_LIKE_SYNTAX,
+	multilineStrings: ['`']
+};
+
+const RUST_SYNTAX: LanguageSyntax = {
+	...C_LIKE_SYNTAX,
+	strings: ['"']
+};
+
+const JSON_SYNTAX: LanguageSyntax = {
+	...C_LIKE_SYNTAX,
+	strings: ['"']
+};
+
+const PYTHON_SYNTAX: LanguageSyntax = {
+	lineComments: ['#'],
+	blockComments: [],
+	strings: ['"', '\''],
+	multilineStrings: ['"""', '\'\'\''],
+	templateStrings: false,
+	regexLiterals: false
+};
+
+const HASH_COMMENT_SYNTAX: LanguageSyntax = {
+	lineComments: ['#'],
+	blockComments: [],
+	strings: ['"', '\''],
+	multilineStrings: [],
+	templateStrings: false,
+	regexLiterals: false
+};
+
+const CSS_SYNTAX: LanguageSyntax = {
+	lineComments: [],
+	blockComments: [['/*', '*/']],
+	strings: ['"', '\''],
+	multilineStrings: [],
+	templateStrings: false,
+	regexLiterals: false
+};
+
+const SCSS_SYNTAX: LanguageSyntax = {
+	...CSS_SYNTAX,
+	lineComments: ['//']
+};
+
+const MARKUP_SYNTAX: LanguageSyntax = {
+	lineComments: [],
+	blockComments: [['<!--', '-->']],
+	strings: [],
+	multilineStrings: [],
+	templateStrings: false,
+	regexLiterals: false
+};
+
+const PLAIN_SYNTAX: LanguageSyntax = {
+	lineComments: [],
+	blockComments: [],
+	strings: [],
+	multilineStrings: [],
+	templateStrings: false,
+	regexLiterals: false
+};
+
+const LANGUAGE_SYNTAX: Record<string, LanguageSyntax> = {
+	javascript: JAVASCRIPT_SYNTAX,
+	javascriptreact: JAVASCRIPT_SYNTAX,
+	typescript: JAVASCRIPT_SYNTAX,
+	typescriptreact: JAVASCRIPT_SYNTAX,
+	json: JSON_SYNTAX,
+	jsonc: JSON_SYNTAX,
+	c: C_LIKE_SYNTAX,
+	cpp: C_LIKE_SYNTAX,
+	csharp: C_LIKE_SYNTAX,
+	java: C_LIKE_SYNTAX,
+	kotlin: C_LIKE_SYNTAX,
+	swift: C_LIKE_SYNTAX,
+	dart: C_LIKE_SYNTAX,
+	scala: C_LIKE_SYNTAX,
+	php: C_LIKE_SYNTAX,
+	go: GO_SYNTAX,
+	rust: RUST_SYNTAX,
+	python: PYTHON_SYNTAX,
+	shellscript: HASH_COMMENT_SYNTAX,
+	ruby: HASH_COMMENT_SYNTAX,
+	perl: HASH_COMMENT_SYNTAX,
+	r: HASH_COMMENT_SYNTAX,
+	yaml: HASH_COMMENT_SYNTAX,
+	toml: HASH_COMMENT_SYNTAX,
+	makefile: HASH_COMMENT_SYNTAX,
+	dockerfile: HASH_COMMENT_SYNTAX,
+	powershell: HASH_COMMENT_SYNTAX,
+	css: CSS_SYNTAX,
+	scss: SCSS_SYNTAX,
+	less: SCSS_SYNTAX,
+	html: MARKUP_SYNTAX,
+	xml: MARKUP_SYNTAX,
+	markdown: PLAIN_SYNTAX,
+	plaintext: PLAIN_SYNTAX
+};
+
+/**
+ * Keywords after which a `/` starts a regex literal rather than a division.
+ */
+const REGEX_PRECEDING_KEYWORDS = new Set([
+	'return', 'typeof', 'instanceof', 'in', 'of', 'new', 'delete', 'void',
+	'throw', 'case', 'do', 'else', 'yield', 'await'
+]);
+
+/**
+ * Get lexical rules for a language, falling back to generic C-like rules.
+ */
+export function getLanguageSyntax(languageId?: string): LanguageSyntax {
+	if (languageId && Object.prototype.hasOwnProperty.call(LANGUAGE_SYNTAX, languageId)) {
+		return LANGUAGE_SYNTAX[languageId];
+	}
+
+	return C_LIKE_SYNTAX;
+}
+
+/**
+ * Create the scanner state for the start of a document.
+ */
+export function createScannerState(): ScannerState {
+	return { mode: 'code', closing: '', templateDepths: [] };
+}
+
+/**
+ * Find the closing slash of a regex literal starting at `start`, or -1 if `/` is not a regex.
+ */
+function findRegexEnd(lineText: string, start: number, lastSignificant: number): number {
+	if (lastSignificant !== -1 && /[\w$)\]"'`]/.test(lineText.charAt(lastSignificant))) {
+		const word = lineText.slice(0, lastSignificant + 1).match(/[\w$]+$/);
+		if (!word || !REGEX_PRECEDING_KEYWORDS.has(word[0])) {
+			return -1;
+		}
+	}
+
+	let inCharacterClass = false;
+	for (let index = start + 1; index < lineText.length; index++) {
+		const char = lineText.charAt(index);
+
+		if (char === '\\') {
+			index++;
+		} else if (inCharacterClass) {
+			inCharacterClass = char !== ']';
+		} else if (char === '[') {
+			inCharacterClass = true;
+		} else if (char === '/') {
+			return index === start + 1 ? -1 : index;
+		}
+	}
+
+	return -1;
+}
+
+/**
+ * Scan a piece of text and return the state right after it, keeping plain strings open.
+ */
+function scanText(
+	lineText: string,
+	state: ScannerState,
+	syntax: LanguageSyntax,
+	onCodeChar?: (char: string, charIndex: number) => void,
+	onLiteralEnd?: (charIndex: number) => void
+): ScannerState {
+	let mode = state.mode;
+	let closing = state.closing;
+	const templateDepths = [...state.templateDepths];
+	let lastSignificant = -1;
+	let index = 0;
+
+	while (index < lineText.length) {
+		const char = lineText.charAt(index);
+
+		if (mode === 'blockComment') {
+			const end = lineText.indexOf(closing, index);
+			if (end === -1) {
+				break;
+			}
+			index = end + closing.length;
+			mode = 'code';
+			closing = '';
+			continue;
+		}
+
+		if (mode === 'string' || mode === 'multilineString') {
+			if (char === '\\') {
+				index += 2;
+			} else if (lineText.startsWith(closing, index)) {
+				index += closing.length;
+				lastSignificant = index - 1;
+				onLiteralEnd?.(lastSignificant);
+				mode = 'code';
+				closing = '';
+			} else {
+				index++;
+			}
+			continue;
+		}
+
+		if (mode === 'template') {
+			if (char === '\\') {
+				index += 2;
+			} else if (char === '`') {
+				lastSignificant = index;
+				onLiteralEnd?.(lastSignificant);
+				index++;
+				mode = 'code';
+			} else if (lineText.startsWith('${', index)) {
+				templateDepths.push(0);
+				index += 2;
+				mode = 'code';
+			} else {
+				index++;
+			}
+			continue;
+		}
+
+		// Code mode
+		const blockComment = syntax.blockComments.find(([open]) => lineText.startsWith(open, index));
+		if (blockComment) {
+			mode = 'blockComment';
+			closing = blockComment[1];
+			index += blockComment[0].length;
+			continue;
+		}
+
+		if (syntax.lineComments.some(token => lineText.startsWith(token, index))) {
+			break;
+		}
+
+		const stringDelimiter =
+			syntax.multilineStrings.find(delimiter => lineText.startsWith(delimiter, index)) ??
+			syntax.strings.find(delimiter => lineText.startsWith(delimiter, index));
+		if (stringDelimiter) {
+			mode = syntax.multilineStrings.includes(stringDelimiter) ? 'multilineString' : 'string';
+			closing = stringDelimiter;
+			index += stringDelimiter.length;
+			continue;
+		}
+
+		if (syntax.templateStrings && char === '`') {
+			mode = 'template';
+			index++;
+			continue;
+		}
+
+		if (syntax.regexLiterals && char === '/') {
+			const regexEnd = findRegexEnd(lineText, index, lastSignificant);
+			if (regexEnd !== -1) {
+				lastSignificant = regexEnd;
+				onLiteralEnd?.(lastSignificant);
+				index = regexEnd + 1;
+				continue;
+			}
+		}
+
+		// Track braces of template substitutions (`${ ... }`)
+		if (templateDepths.length > 0 && (char === '{' || char === '}')) {
+			const top = templateDepths.length - 1;
+			if (char === '}' && templateDepths[top] === 0) {
+				templateDepths.pop();
+				index++;
+				mode = 'template';
+				continue;
+			}
+			templateDepths[top] += char === '{' ? 1 : -1;
+		}
+
+		if (!/\s/.test(char)) {
+			lastSignificant = index;
+		}
+		onCodeChar?.(char, index);
+		index++;
+	}
+
+	return { mode, closing, templateDepths };
+}
+
+/**
+ * Scan a single line, reporting every character that belongs to code
+ * (outside strings, comments and regex literals). Returns the state for the next line.
+ * `onLiteralEnd` receives the last character index of every string, template or regex literal ending on the line.
+ */
+export function scanLine(
+	lineText: string,
+	state: ScannerState,
+	syntax: LanguageSyntax,
+	onCodeChar?: (char: string, charIndex: number) => void,
+	onLiteralEnd?: (charIndex: number) => void
+): ScannerState {
+	const endState = scanText(lineText, state, syntax, onCodeChar, onLiteralEnd);
+
+	// Plain string literals never continue on the next line
+	if (endState.mode === 'string') {
+		onLiteralEnd?.(lineText.length - 1);
+		return { mode: 'code', closing: '', templateDepths: endState.templateDepths };
+	}
+
+	return endState;
+}
+
+/**
+ * Get the scanner state right before a character of a line.
+ * Unlike the state between lines, a plain string still open at that point is reported as such.
+ */
+export function getStateAt(
+	lineText: string,
+	state: ScannerState,
+	syntax: LanguageSyntax,
+	charIndex: number
+): ScannerState {
+	return scanText(lineText.slice(0, charIndex), state, syntax);
+}
+
+/**
+ * Scan a list of lines, reporting every code character with its position.
+ */
+export function scanLines(
+	lines: string[],
+	syntax: LanguageSyntax,
+	onCodeChar: (char: string, line: number, charIndex: number) => void
+): void {
+	let state = createScannerState();
+
+	lines.forEach((lineText, lineNumber) => {
+		state = scanLine(lineText, state, syntax, (char, charIndex) => onCodeChar(char, lineNumber, charIndex));
+	});
+}
+
+/**
+ * Find where code ends on a line, ignoring trailing comments and whitespace.
+ * Returns 0 when the line contains no code.
+ */
+export function findCodeEnd(lines: string[], targetLine: number, syntax: LanguageSyntax): number {
+	let state = createScannerState();
+	for (let lineNumber = 0; lineNumber < targetLine; lineNumber++) {
+		state = scanLine(lines[lineNumber], state, syntax);
+	}
+
+	return findLineCodeEnd(lines[targetLine], state, syntax);
+}
+
+/**
+ * Find where code ends on a line scanned from the given state.
+ * Returns 0 when the line contains no code.
+ */
+export function findLineCodeEnd(lineText: string, startState: ScannerState, syntax: LanguageSyntax): number {
+	let codeEnd = 0;
+	scanLine(
+		lineText,
+		startState,
+		syntax,
+		(char, charIndex) => {
+			if (!/\s/.test(char)) {
+				codeEnd = charIndex + 1;
+			}
+		},
+		charIndex => {
+			codeEnd = Math.max(codeEnd, charIndex + 1);
+		}
+	);
+
+	return codeEnd;
+}
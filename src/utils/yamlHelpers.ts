@@ -0,0 +1,98 @@
+import * as vscode from 'vscode';
+import { findCodeEnd, getLanguageSyntax } from './syntaxScanner';
+
+/**
+ * Mapping key followed by its colon at the start of a text (`key:`, `"quoted key":`).
+ */
+const YAML_KEY_PATTERN = /^(?:"(?:[^"\\]|\\.)*"|'(?:[^']|'')*'|[^\s#'"{}[\],&*!|>%@`-][^:#]*?)\s*:(?:\s|$)/;
+
+/**
+ * Determine whether document is YAML.
+ */
+export function isYamlDocument(document: vscode.TextDocument): boolean {
+	return document.languageId === 'yaml';
+}
+
+/**
+ * Get the text of a YAML line without its trailing comment and whitespace.
+ */
+export function stripYamlComment(lineText: string): string {
+	// YAML has no multi-line comments, so a line can be scanned on its own
+	return lineText.slice(0, findCodeEnd([lineText], 0, getLanguageSyntax('yaml')));
+}
+
+/**
+ * Check whether a YAML line opens a nested block: a mapping key without a value
+ * (`key:`, `- key:`) or a block scalar header (`key: |`, `key: >-`).
+ */
+export function opensYamlBlock(lineText: string): boolean {
+	return /:(?:\s+[|>][-+]?\d*)?$/.test(stripYamlComment(lineText));
+}
+
+/**
+ * Match a YAML list entry (`- item`), capturing its indent and the bullet with its spacing.
+ */
+export function matchYamlListItem(lineText: string): RegExpMatchArray | null {
+	return lineText.match(/^(\s*)(-(?:\s+|$))/);
+}
+
+/**
+ * Check whether a YAML line is the header of a block scalar (`key: |`, `- >-`).
+ */
+function opensYamlBlockScalar(lineText: string): boolean {
+	return /(?:^\s*-|:)\s+[|>][-+]?\d*$/.test(stripYamlComment(lineText));
+}
+
+/**
+ * Check whether a line is content of a block scalar: some less indented line above is a
+ * block scalar header, and every line in between is indented deeper than that header.
+ */
+export function isInYamlBlockScalar(document: vscode.TextDocument, line: number): boolean {
+	let minIndent = document.lineAt(line).firstNonWhitespaceCharacterIndex;
+
+	for (let index = line - 1; index >= 0 && minIndent > 0; index--) {
+		const lineText = document.lineAt(index).text;
+		const indent = lineText.search(/\S/);
+		if (indent === -1 || indent >= minIndent) {
+			continue;
+		}
+		if (opensYamlBlockScalar(lineText)) {
+			return true;
+		}
+		minIndent = indent;
+	}
+
+	return false;
+}
+
+/**
+ * Check whether the list containing the entry on a line holds mappings:
+ * another entry at the same indent starts with a key (`- name: ...`).
+ */
+export function isYamlMappingList(document: vscode.TextDocument, line: number): boolean {
+	const bulletIndent = matchYamlListItem(document.lineAt(line).text)?.[1].length;
+	if (bulletIndent === undefined) {
+		return false;
+	}
+
+	// Walk over sibling entries and their nested content until the list ends
+	for (const step of [-1, 1]) {
+		for (let index = line + step; index >= 0 && index < document.lineCount; index += step) {
+			const lineText = document.lineAt(index).text;
+			const indent = lineText.search(/\S/);
+			if (indent === -1 || indent > bulletIndent) {
+				continue;
+			}
+
+			const entry = matchYamlListItem(lineText);
+			if (indent < bulletIndent || !entry) {
+				break;
+			}
+			if (YAML_KEY_PATTERN.test(stripYamlComment(lineText.slice(entry[0].length)))) {
+				return true;
+			}
+		}
+	}
+
+	return false;
+}